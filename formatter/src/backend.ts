@@ -0,0 +1,334 @@
+/**
+ * Tree-sitter backends
+ * The parser runs either on the native Node.js bindings (`tree-sitter` and the
+ * locally built `tree-sitter-modelica`) or on WebAssembly (`web-tree-sitter`
+ * and the `grammars/modelica.wasm` grammar shipped for Zed). Both expose the
+ * same syntax tree, described by the interfaces below.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { createRequire } from "module";
+import { fileURLToPath } from "url";
+import type NativeParser from "tree-sitter";
+import type { Tree as WasmTree } from "web-tree-sitter";
+
+const require = createRequire(import.meta.url);
+
+/**
+ * Name of a backend
+ */
+export type ParserBackend = "native" | "wasm";
+
+/**
+ * WebAssembly grammar copied next to the compiled code by the build, so that
+ * it is part of the published package
+ */
+const PACKAGED_WASM_PATH = fileURLToPath(new URL("./modelica.wasm", import.meta.url));
+
+/**
+ * Default location of the WebAssembly grammar: the packaged copy, else the
+ * grammar shipped for Zed in the repository (when running from `src/`)
+ */
+const DEFAULT_WASM_PATH = fs.existsSync(PACKAGED_WASM_PATH)
+  ? PACKAGED_WASM_PATH
+  : fileURLToPath(new URL("../../grammars/modelica.wasm", import.meta.url));
+
+/**
+ * Zed extension manifest, which pins the grammar revision modelica.wasm is built from
+ */
+const EXTENSION_MANIFEST_PATH = fileURLToPath(
+  new URL("../../extension.toml", import.meta.url),
+);
+
+/**
+ * Row and column in the source (0-based, columns in UTF-16 code units)
+ */
+export interface Point {
+  row: number;
+  column: number;
+}
+
+/**
+ * Syntax node, as provided by both backends
+ */
+export interface SyntaxNode {
+  readonly type: string;
+  readonly text: string;
+  readonly startIndex: number;
+  readonly endIndex: number;
+  readonly startPosition: Point;
+  readonly endPosition: Point;
+  readonly isNamed: boolean;
+  readonly isMissing: boolean;
+  readonly hasError: boolean;
+  readonly nextParseState: number;
+  readonly childCount: number;
+  readonly children: ReadonlyArray<SyntaxNode | null>;
+  readonly parent: SyntaxNode | null;
+  readonly previousSibling: SyntaxNode | null;
+  readonly nextSibling: SyntaxNode | null;
+  child(index: number): SyntaxNode | null;
+  walk(): TreeCursor;
+  toString(): string;
+}
+
+/**
+ * Cursor over the children of a node
+ */
+export interface TreeCursor {
+  readonly currentNode: SyntaxNode;
+  readonly currentFieldName: string | null;
+  gotoFirstChild(): boolean;
+  gotoNextSibling(): boolean;
+  /** Free the cursor (WebAssembly cursors are not garbage collected) */
+  delete?(): void;
+}
+
+/**
+ * Change to the source, in the format of `Tree.edit()`
+ */
+export interface Edit {
+  startIndex: number;
+  oldEndIndex: number;
+  newEndIndex: number;
+  startPosition: Point;
+  oldEndPosition: Point;
+  newEndPosition: Point;
+}
+
+/**
+ * Range reported by `Tree.getChangedRanges()`
+ */
+export interface TreeRange {
+  startIndex: number;
+  endIndex: number;
+  startPosition: Point;
+  endPosition: Point;
+}
+
+/**
+ * Syntax tree, as provided by both backends
+ */
+export interface Tree {
+  readonly rootNode: SyntaxNode;
+  edit(edit: Edit): void;
+  getChangedRanges(other: Tree): TreeRange[];
+  /** Free the tree (WebAssembly trees are not garbage collected) */
+  delete?(): void;
+}
+
+/**
+ * Node captured by a query
+ */
+export interface QueryCapture {
+  /** Capture name, without the `@` */
+  name: string;
+  node: SyntaxNode;
+}
+
+/**
+ * Compiled tree-sitter query
+ */
+export interface Query {
+  captures(node: SyntaxNode): QueryCapture[];
+  /** Free the query (WebAssembly queries are not garbage collected) */
+  delete?(): void;
+}
+
+/**
+ * A loaded backend
+ */
+export interface Backend {
+  readonly name: ParserBackend;
+  /** Runtime package and version, e.g. `web-tree-sitter 0.25.10` */
+  readonly runtimeVersion: string;
+  /** Grammar package version or revision, if known */
+  readonly grammarVersion: string | null;
+  /**
+   * Parse source code, reusing an edited previous tree of the same document
+   */
+  parse(sourceCode: string, oldTree?: Tree): Tree;
+  /**
+   * Node types the parser accepts in a parse state
+   */
+  lookahead(state: number): string[];
+  /**
+   * Compile an S-expression query. Throws if the query is invalid.
+   */
+  query(source: string): Query;
+}
+
+/**
+ * Version of an installed package, read from the package.json above its entry
+ * point (packages don't necessarily export their package.json)
+ */
+function readPackageVersion(name: string): string | null {
+  try {
+    let directory = path.dirname(require.resolve(name));
+    while (directory !== path.dirname(directory)) {
+      const manifestPath = path.join(directory, "package.json");
+      if (fs.existsSync(manifestPath)) {
+        const manifest = JSON.parse(fs.readFileSync(manifestPath, "utf8"));
+        if (manifest.name === name) {
+          return manifest.version ?? null;
+        }
+      }
+      directory = path.dirname(directory);
+    }
+  } catch {
+    // Not installed
+  }
+  return null;
+}
+
+/**
+ * Grammar revision pinned in the `[grammars.modelica]` section of extension.toml
+ */
+function readGrammarRevision(): string | null {
+  try {
+    const manifest = fs.readFileSync(EXTENSION_MANIFEST_PATH, "utf8");
+    const section = manifest.split(/^\[grammars\.modelica\]\s*$/m)[1]?.split(/^\[/m)[0];
+    return section?.match(/^rev\s*=\s*"([^"]+)"/m)?.[1] ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Load the native bindings. Throws if `tree-sitter` or `tree-sitter-modelica`
+ * is not installed or not built for this platform.
+ */
+export function loadNativeBackend(): Backend {
+  const Parser = require("tree-sitter") as typeof NativeParser;
+  const language = require("tree-sitter-modelica") as NativeParser.Language;
+  const parser = new Parser();
+  parser.setLanguage(language);
+
+  const grammarVersion = readPackageVersion("tree-sitter-modelica");
+  return {
+    name: "native",
+    runtimeVersion: `tree-sitter ${readPackageVersion("tree-sitter") ?? "(unknown version)"}`,
+    grammarVersion: grammarVersion && `tree-sitter-modelica ${grammarVersion}`,
+    parse: (sourceCode, oldTree) =>
+      parser.parse(sourceCode, oldTree as unknown as NativeParser.Tree | undefined) as unknown as Tree,
+    lookahead: (state) => [...new Parser.LookaheadIterator(language, state)],
+    query: (source) => new Parser.Query(language, source) as unknown as Query,
+  };
+}
+
+/**
+ * Remove the `needed` subsection from the `dylink.0` section of a WebAssembly
+ * side module. The Zed build of the grammar declares a dependency on
+ * `libc.so`, which web-tree-sitter would try (and fail) to load, although
+ * its runtime already provides the few libc functions the grammar imports.
+ *
+ * Written for web-tree-sitter 0.25.10, whose Emscripten loader reads
+ * `neededDynlibs` from this subsection; test/verify-wasm.js checks it against
+ * the grammar in the repository.
+ */
+export function stripNeededLibraries(bytes: Uint8Array): Uint8Array {
+  const readLeb = (offset: number): [number, number] => {
+    let value = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      byte = bytes[offset++];
+      value |= (byte & 0x7f) << shift;
+      shift += 7;
+    } while (byte & 0x80);
+    return [value >>> 0, offset];
+  };
+  const writeLeb = (value: number): number[] => {
+    const out: number[] = [];
+    do {
+      let byte = value & 0x7f;
+      value >>>= 7;
+      if (value) {
+        byte |= 0x80;
+      }
+      out.push(byte);
+    } while (value);
+    return out;
+  };
+
+  // The dylink.0 section must be the first section, right after the header
+  const headerLength = 8;
+  if (bytes.length <= headerLength || bytes[headerLength] !== 0) {
+    return bytes;
+  }
+  const [sectionLength, sectionStart] = readLeb(headerLength + 1);
+  const sectionEnd = sectionStart + sectionLength;
+  const [nameLength, nameStart] = readLeb(sectionStart);
+  const name = new TextDecoder().decode(bytes.subarray(nameStart, nameStart + nameLength));
+  if (name !== "dylink.0") {
+    return bytes;
+  }
+
+  const NEEDED_SUBSECTION = 2;
+  const body: number[] = [...bytes.subarray(sectionStart, nameStart + nameLength)];
+  let offset = nameStart + nameLength;
+  let stripped = false;
+  while (offset < sectionEnd) {
+    const type = bytes[offset];
+    const [length, start] = readLeb(offset + 1);
+    if (type === NEEDED_SUBSECTION) {
+      stripped = true;
+    } else {
+      body.push(...bytes.subarray(offset, start + length));
+    }
+    offset = start + length;
+  }
+  if (!stripped) {
+    return bytes;
+  }
+
+  const result = new Uint8Array(
+    headerLength + 1 + writeLeb(body.length).length + body.length + bytes.length - sectionEnd,
+  );
+  result.set(bytes.subarray(0, headerLength + 1));
+  result.set([...writeLeb(body.length), ...body], headerLength + 1);
+  result.set(bytes.subarray(sectionEnd), result.length - (bytes.length - sectionEnd));
+  return result;
+}
+
+/**
+ * Load web-tree-sitter and the WebAssembly grammar
+ * @param wasmPath Path of the grammar, `grammars/modelica.wasm` by default
+ */
+export async function loadWasmBackend(wasmPath = DEFAULT_WASM_PATH): Promise<Backend> {
+  const { Parser, Language, Query } = await import("web-tree-sitter");
+  await Parser.init();
+  const language = await Language.load(stripNeededLibraries(fs.readFileSync(wasmPath)));
+  const parser = new Parser();
+  parser.setLanguage(language);
+
+  // The revision describes the shipped grammar only
+  const revision = wasmPath === DEFAULT_WASM_PATH ? readGrammarRevision() : null;
+  return {
+    name: "wasm",
+    runtimeVersion: `web-tree-sitter ${readPackageVersion("web-tree-sitter") ?? "(unknown version)"}`,
+    grammarVersion: revision
+      ? `${path.basename(wasmPath)} rev ${revision}`
+      : path.basename(wasmPath),
+    parse: (sourceCode, oldTree) => {
+      const tree = parser.parse(sourceCode, oldTree as unknown as WasmTree | undefined);
+      if (!tree) {
+        throw new Error("web-tree-sitter did not return a syntax tree");
+      }
+      return tree as unknown as Tree;
+    },
+    lookahead: (state) => {
+      const iterator = language.lookaheadIterator(state);
+      if (!iterator) {
+        return [];
+      }
+      try {
+        return [...iterator];
+      } finally {
+        iterator.delete();
+      }
+    },
+    query: (source) => new Query(language, source) as unknown as Query,
+  };
+}
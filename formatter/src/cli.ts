@@ -3,35 +3,318 @@
  * Modelica Formatter CLI
  * Formats Modelica source files using Prettier with tree-sitter
  *
- * Usage: modelica-format <file.mo> [options]
+ * Usage: modelica-format <file.mo|directory|glob>... [options]
+ *        modelica-format --stdin-filepath <path> < input.mo
+ *        modelica-format query <file.scm> <file.mo|directory|glob>... [options]
  */
 
 import * as fs from 'fs'
 import * as path from 'path'
-import { format } from 'prettier'
+import { format, resolveConfig } from 'prettier'
+import type { Options } from 'prettier'
 import plugin from './index.js'
+import { expandInputs } from './files.js'
+import { createUnifiedDiff } from './diff.js'
+import { checkAstEquivalence } from './equivalence.js'
+import { ModelicaSyntaxError, formatDiagnostic } from './diagnostics.js'
+import { UnhandledNodeError } from './printer.js'
+import { initParser, parse } from './parser.js'
+import { compileQuery } from './query.js'
+import type { CompiledQuery } from './query.js'
+import { dumpJson, dumpSexp } from './dump.js'
+import { formatVersionInfo, getVersionInfo } from './version.js'
 
 // Parse command-line arguments
 const args = process.argv.slice(2)
 
 function printHelp() {
-  console.log('Usage: modelica-format <file.mo> [options]')
+  console.log('Usage: modelica-format <path>... [options]')
+  console.log('       modelica-format --stdin-filepath <path> [options] < input.mo')
+  console.log('       modelica-format query <file.scm> <path>... [--json]')
+  console.log('       modelica-format parse <file> [--format sexp|json] [--all] [--fields]')
+  console.log('')
+  console.log('Commands:')
+  console.log('  query <file.scm> <path>...')
+  console.log('                       Run a tree-sitter query and print its captures as')
+  console.log('                       file:line:col-line:col @capture node_type "text"')
+  console.log('                       (--json: print them as JSON instead)')
+  console.log('  parse <file>         Print the syntax tree the formatter works on, with')
+  console.log('                       ranges (0-based); ERROR and MISSING nodes are highlighted')
+  console.log('                       --format sexp|json  Output format (default: sexp)')
+  console.log('                       --named-only        Only named nodes (default)')
+  console.log('                       --all               Also keywords, operators and punctuation')
+  console.log('                       --fields            Show field names')
   console.log('')
   console.log('Arguments:')
-  console.log('  <file.mo>            Path to a Modelica file to format')
+  console.log('  <path>...            Modelica files, directories (searched recursively')
+  console.log('                       for .mo files) or glob patterns')
   console.log('')
   console.log('Options:')
-  console.log('  --write, -w          Write formatted output back to input file')
-  console.log('  --output, -o <file>  Write formatted output to specified file')
-  console.log('  --check, -c          Check if file is formatted (exit 1 if not)')
+  console.log('  --write, -w          Write formatted output back to input files')
+  console.log('  --output, -o <file>  Write formatted output to specified file (single input only)')
+  console.log('  --check, -c          Check if files are formatted (exit 1 if not)')
+  console.log('  --diff, -d           Print a unified diff of the changes formatting would make')
   console.log('  --quiet, -q          Suppress output except errors')
+  console.log('  --verify             Re-parse the formatted code and fail if its syntax tree')
+  console.log('                       differs from the original (default with --write/--output)')
+  console.log('  --no-verify          Write formatted code without the syntax tree check')
+  console.log('  --stdin              Read source from stdin and write formatted code to stdout')
+  console.log('  --stdin-filepath <path>')
+  console.log('                       Like --stdin, using <path> for config lookup and messages')
+  console.log('  --version, -v        Show the formatter, tree-sitter and grammar versions')
   console.log('  --help, -h           Show this help message')
   console.log('')
+  console.log('Layout options (override .prettierrc and .editorconfig):')
+  console.log('  --print-width <n>    Maximum line length')
+  console.log('  --tab-width <n>      Number of columns of a tab')
+  console.log('  --use-tabs           Indent with tabs instead of spaces')
+  console.log('  --modelica-indent-size <n>')
+  console.log('                       Number of spaces per indentation level')
+  console.log('  --max-blank-lines <n>')
+  console.log('                       Blank lines kept between elements, equations, statements')
+  console.log('                       and class sections (default: 1)')
+  console.log('  --reflow-comments    Wrap long // comments and re-indent /* */ comments')
+  console.log('  --description-strings <mode>')
+  console.log('                       preserve: keep the string literals as written (default)')
+  console.log('                       wrap: split over-long strings into "+"-joined literals')
+  console.log('                       join: like wrap, and join concatenations that fit')
+  console.log('')
+  console.log('Documentation (HTML strings in annotations):')
+  console.log('  --modelica-documentation <mode>')
+  console.log("                       prettier: format with Prettier's HTML printer (default)")
+  console.log('                       wrap: only wrap lines longer than the print width')
+  console.log('                       preserve: keep as written')
+  console.log('')
+  console.log('Syntax errors:')
+  console.log('  --parse-errors <mode>')
+  console.log('                       error: fail and list the error locations (default)')
+  console.log('                       verbatim: keep code with errors as written, format the rest')
+  console.log('')
+  console.log('Printer coverage:')
+  console.log('  --strict             Fail on node types the printer has no rule for and list')
+  console.log('                       them (without it, they are printed as written)')
+  console.log('')
+  console.log('Parser:')
+  console.log('  --parser-backend <backend>')
+  console.log('                       native: tree-sitter Node.js bindings')
+  console.log('                       wasm: web-tree-sitter with grammars/modelica.wasm')
+  console.log('                       auto: $MODELICA_PARSER_BACKEND, else native if it loads,')
+  console.log('                       else wasm (default)')
+  console.log('')
+  console.log('Range options:')
+  console.log('  --range-start <n>    Only format code from this character offset on')
+  console.log('  --range-end <n>      Only format code up to this character offset')
+  console.log('                       (the range grows to whole elements, equations or statements)')
+  console.log('')
   console.log('Examples:')
   console.log('  modelica-format model.mo              # Preview formatted output')
   console.log('  modelica-format model.mo --write      # Format and overwrite')
   console.log('  modelica-format model.mo -o out.mo    # Format and save to new file')
   console.log('  modelica-format model.mo --check      # Check if formatted')
+  console.log('  modelica-format Buildings --check     # Check a whole library')
+  console.log('  modelica-format Buildings -c --diff   # Check and show what would change')
+  console.log('  modelica-format "Buildings/Fluid/**/*.mo" --write')
+  console.log('  modelica-format --stdin-filepath model.mo < model.mo')
+  console.log('  modelica-format query ../languages/modelica/highlights.scm model.mo')
+  console.log('  modelica-format parse model.mo --all --fields')
+}
+
+/**
+ * Value of an option of the parser backend, or exit if invalid
+ */
+function parserBackendOption(commandArgs: string[]): 'auto' | 'native' | 'wasm' | undefined {
+  const idx = commandArgs.indexOf('--parser-backend')
+  if (idx === -1) {
+    return undefined
+  }
+  const value = commandArgs[idx + 1]
+  if (value !== 'auto' && value !== 'native' && value !== 'wasm') {
+    console.error(`Error: --parser-backend expects "auto", "native" or "wasm", got: ${value ?? '(nothing)'}`)
+    process.exit(1)
+  }
+  return value
+}
+
+/**
+ * First line of a capture's text, shortened for one-line output
+ */
+function captureText(text: string): string {
+  const line = text.split('\n')[0]
+  return JSON.stringify(line.length > 60 || line !== text ? `${line.slice(0, 60)}...` : line)
+}
+
+/**
+ * `query` command: print the captures of a query in each file
+ */
+async function runQueryCommand(commandArgs: string[]) {
+  const json = commandArgs.includes('--json')
+  const backend = parserBackendOption(commandArgs)
+  const positional: string[] = []
+  for (let i = 0; i < commandArgs.length; i++) {
+    const arg = commandArgs[i]
+    if (arg === '--parser-backend') {
+      i++
+    } else if (arg === '--json') {
+      continue
+    } else if (arg.startsWith('-')) {
+      console.error(`Error: Unknown option for query: ${arg}`)
+      process.exit(1)
+    } else {
+      positional.push(arg)
+    }
+  }
+  const [queryFile, ...queryInputs] = positional
+  if (!queryFile || queryInputs.length === 0) {
+    console.error('Usage: modelica-format query <file.scm> <path>... [--json]')
+    process.exit(1)
+  }
+
+  let querySource: string
+  try {
+    querySource = fs.readFileSync(queryFile, 'utf8')
+  } catch (error) {
+    console.error(`Error: ${queryFile}: ${error instanceof Error ? error.message : String(error)}`)
+    process.exit(1)
+  }
+
+  const { files: queryFiles, unmatched: queryUnmatched } = expandInputs(queryInputs)
+  for (const input of queryUnmatched) {
+    console.error(`Error: No files found for: ${input}`)
+  }
+
+  try {
+    await initParser({ backend })
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`)
+    process.exit(1)
+  }
+  let query: CompiledQuery
+  try {
+    query = compileQuery(querySource)
+  } catch (error) {
+    console.error(`Error: ${queryFile}: ${error instanceof Error ? error.message : String(error)}`)
+    process.exit(1)
+  }
+
+  const results: object[] = []
+  let failed = queryUnmatched.length > 0
+  for (const file of queryFiles) {
+    const displayPath = path.relative(process.cwd(), file)
+    try {
+      const captures = query.captures(fs.readFileSync(file, 'utf8'))
+      for (const capture of captures) {
+        if (json) {
+          results.push({ file: displayPath, ...capture })
+          continue
+        }
+        const { start, end } = capture.range
+        console.log(
+          `${displayPath}:${start.row + 1}:${start.column + 1}-${end.row + 1}:${end.column + 1} ` +
+          `@${capture.name} ${capture.type} ${captureText(capture.text)}`,
+        )
+      }
+    } catch (error) {
+      console.error(`Error: ${displayPath}: ${error instanceof Error ? error.message : String(error)}`)
+      failed = true
+    }
+  }
+  query.delete()
+  if (json) {
+    console.log(JSON.stringify(results, null, 2))
+  }
+  process.exit(failed ? 1 : 0)
+}
+
+/**
+ * `parse` command: print the syntax tree of a file, exit 1 if it has syntax errors
+ */
+async function runParseCommand(commandArgs: string[]) {
+  const backend = parserBackendOption(commandArgs)
+  let outputFormat = 'sexp'
+  const positional: string[] = []
+  for (let i = 0; i < commandArgs.length; i++) {
+    const arg = commandArgs[i]
+    if (arg === '--format') {
+      outputFormat = commandArgs[++i]
+      if (outputFormat !== 'sexp' && outputFormat !== 'json') {
+        console.error(`Error: --format expects "sexp" or "json", got: ${outputFormat ?? '(nothing)'}`)
+        process.exit(1)
+      }
+    } else if (arg === '--parser-backend') {
+      i++
+    } else if (['--all', '--named-only', '--fields'].includes(arg)) {
+      continue
+    } else if (arg.startsWith('-')) {
+      console.error(`Error: Unknown option for parse: ${arg}`)
+      process.exit(1)
+    } else {
+      positional.push(arg)
+    }
+  }
+  if (positional.length !== 1) {
+    console.error('Usage: modelica-format parse <file> [--format sexp|json] [--named-only|--all] [--fields]')
+    process.exit(1)
+  }
+  // The last of --all and --named-only wins
+  const all = commandArgs.lastIndexOf('--all') > commandArgs.lastIndexOf('--named-only')
+
+  const file = positional[0]
+  let sourceCode: string
+  try {
+    sourceCode = fs.readFileSync(file, 'utf8')
+  } catch (error) {
+    console.error(`Error: ${file}: ${error instanceof Error ? error.message : String(error)}`)
+    process.exit(1)
+  }
+
+  try {
+    await initParser({ backend })
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`)
+    process.exit(1)
+  }
+  const result = parse(sourceCode, { includeTokens: true })
+  const dumpOptions = {
+    all,
+    fields: commandArgs.includes('--fields'),
+    color: process.stdout.isTTY === true && !process.env.NO_COLOR,
+  }
+  if (outputFormat === 'json') {
+    console.log(JSON.stringify(dumpJson(result.rootNode, dumpOptions), null, 2))
+  } else {
+    console.log(dumpSexp(result.rootNode, dumpOptions))
+  }
+
+  const displayPath = path.relative(process.cwd(), path.resolve(file))
+  for (const diagnostic of result.diagnostics) {
+    console.error(formatDiagnostic(diagnostic, displayPath))
+  }
+  process.exit(result.hasErrors ? 1 : 0)
+}
+
+/**
+ * `--version`: print the versions of the formatter and of the parser backend
+ * (the one --parser-backend or auto-detection selects)
+ */
+async function printVersion() {
+  try {
+    await initParser({ backend: parserBackendOption(args) })
+  } catch (error) {
+    console.error(`Warning: no parser backend could be loaded: ${error instanceof Error ? error.message : String(error)}`)
+  }
+  const info = getVersionInfo()
+  console.log(`modelica-format ${info.formatter}`)
+  console.log(`tree-sitter runtime: ${info.runtime ? `${info.runtime} (${info.backend} backend)` : 'not available'}`)
+  console.log(`grammar: ${info.grammar ?? 'unknown'}`)
+}
+
+if (args[0] === 'query') {
+  await runQueryCommand(args.slice(1))
+} else if (args[0] === 'parse') {
+  await runParseCommand(args.slice(1))
+} else if (args.includes('--version') || args.includes('-v')) {
+  await printVersion()
+  process.exit(0)
 }
 
 if (args.length === 0 || args.includes('--help') || args.includes('-h')) {
@@ -43,6 +326,10 @@ if (args.length === 0 || args.includes('--help') || args.includes('-h')) {
 const writeOutput = args.includes('--write') || args.includes('-w')
 const checkOnly = args.includes('--check') || args.includes('-c')
 const quiet = args.includes('--quiet') || args.includes('-q')
+const showDiff = args.includes('--diff') || args.includes('-d')
+// Never write code that changed meaning, unless asked to skip the check
+const verifyOutput = args.includes('--verify') ||
+  (!args.includes('--no-verify') && (writeOutput || args.includes('--output') || args.includes('-o')))
 
 // Parse --output / -o option
 let outputFile: string | undefined
@@ -51,109 +338,399 @@ if (outputIdx !== -1 && args[outputIdx + 1]) {
   outputFile = args[outputIdx + 1]
 }
 
-// Find input file (first arg that's not an option or option value)
-const optionArgs = new Set(['--write', '-w', '--help', '-h', '--output', '-o', '--check', '-c', '--quiet', '-q'])
-let inputFile: string | undefined
+// Parse --stdin-filepath option (implies --stdin)
+let stdinFilepath: string | undefined
+const stdinFilepathIdx = args.indexOf('--stdin-filepath')
+if (stdinFilepathIdx !== -1 && args[stdinFilepathIdx + 1]) {
+  stdinFilepath = args[stdinFilepathIdx + 1]
+}
+const stdinMode = args.includes('--stdin') || stdinFilepath !== undefined
+
+// Formatting options given on the command line take precedence over config files
+const optionOverrides: Options = {}
+const integerOptions: Record<string, string> = {
+  '--print-width': 'printWidth',
+  '--tab-width': 'tabWidth',
+  '--modelica-indent-size': 'modelicaIndentSize',
+  '--max-blank-lines': 'modelicaMaxBlankLines',
+  '--range-start': 'modelicaRangeStart',
+  '--range-end': 'modelicaRangeEnd',
+}
+for (const [flag, optionName] of Object.entries(integerOptions)) {
+  const idx = args.indexOf(flag)
+  if (idx === -1) continue
+  const value = Number(args[idx + 1])
+  if (!Number.isInteger(value) || value < 0) {
+    console.error(`Error: ${flag} expects a non-negative integer, got: ${args[idx + 1] ?? '(nothing)'}`)
+    process.exit(1)
+  }
+  optionOverrides[optionName] = value
+}
+if (args.includes('--use-tabs')) {
+  optionOverrides.useTabs = true
+}
+if (args.includes('--reflow-comments')) {
+  optionOverrides.modelicaReflowComments = true
+}
+const parseErrorsIdx = args.indexOf('--parse-errors')
+if (parseErrorsIdx !== -1) {
+  const value = args[parseErrorsIdx + 1]
+  if (value !== 'error' && value !== 'verbatim') {
+    console.error(`Error: --parse-errors expects "error" or "verbatim", got: ${value ?? '(nothing)'}`)
+    process.exit(1)
+  }
+  optionOverrides.modelicaParseErrors = value
+}
+const descriptionStringsIdx = args.indexOf('--description-strings')
+if (descriptionStringsIdx !== -1) {
+  const value = args[descriptionStringsIdx + 1]
+  if (value !== 'preserve' && value !== 'wrap' && value !== 'join') {
+    console.error(`Error: --description-strings expects "preserve", "wrap" or "join", got: ${value ?? '(nothing)'}`)
+    process.exit(1)
+  }
+  optionOverrides.modelicaDescriptionStrings = value
+}
+const documentationIdx = args.indexOf('--modelica-documentation')
+if (documentationIdx !== -1) {
+  const value = args[documentationIdx + 1]
+  if (value !== 'preserve' && value !== 'wrap' && value !== 'prettier') {
+    console.error(`Error: --modelica-documentation expects "preserve", "wrap" or "prettier", got: ${value ?? '(nothing)'}`)
+    process.exit(1)
+  }
+  optionOverrides.modelicaDocumentation = value
+}
+const parserBackend = parserBackendOption(args)
+if (parserBackend) {
+  optionOverrides.modelicaParserBackend = parserBackend
+}
+if (args.includes('--strict')) {
+  optionOverrides.modelicaStrict = true
+}
+
+// Options followed by a value
+const valueOptionArgs = new Set(['--output', '-o', '--stdin-filepath', '--parse-errors', '--description-strings', '--modelica-documentation', '--parser-backend', ...Object.keys(integerOptions)])
+
+// Collect input paths (every arg that's not an option or option value)
+const optionArgs = new Set(['--write', '-w', '--help', '-h', '--version', '-v', '--check', '-c', '--quiet', '-q', '--diff', '-d', '--stdin', '--use-tabs', '--reflow-comments', '--strict', '--verify', '--no-verify', ...valueOptionArgs])
+const inputs: string[] = []
 for (let i = 0; i < args.length; i++) {
   const arg = args[i]
   if (optionArgs.has(arg)) {
-    if (arg === '--output' || arg === '-o') {
-      i++ // skip next arg (output file value)
+    if (valueOptionArgs.has(arg)) {
+      i++ // skip next arg (option value)
     }
     continue
   }
-  if (!arg.startsWith('-')) {
-    inputFile = arg
-    break
+  if (arg.startsWith('-')) {
+    console.error(`Error: Unknown option: ${arg}`)
+    console.error('Run with --help for usage information')
+    process.exit(1)
   }
+  inputs.push(arg)
 }
 
-if (!inputFile) {
+if (stdinMode) {
+  if (inputs.length > 0 || writeOutput || outputFile) {
+    console.error('Error: --stdin cannot be combined with input files, --write or --output')
+    process.exit(1)
+  }
+} else if (inputs.length === 0) {
   console.error('Error: No input file specified')
   console.error('Run with --help for usage information')
   process.exit(1)
 }
 
-// Resolve the file path
-const sourceFile = path.resolve(inputFile)
+// Resolve inputs to the list of files to format
+const { files, unmatched } = stdinMode ? { files: [], unmatched: [] } : expandInputs(inputs)
+
+for (const input of unmatched) {
+  console.error(`Error: No files found for: ${input}`)
+}
+if (!stdinMode && files.length === 0) {
+  process.exit(1)
+}
 
-// Check if file exists
-if (!fs.existsSync(sourceFile)) {
-  console.error(`Error: File not found: ${sourceFile}`)
+if (outputFile && files.length > 1) {
+  console.error('Error: --output can only be used with a single input file')
   process.exit(1)
 }
 
-// Check file extension
-if (!sourceFile.endsWith('.mo') && !quiet) {
-  console.warn(`Warning: File does not have .mo extension: ${sourceFile}`)
+if ((args.includes('--range-start') || args.includes('--range-end')) && files.length > 1) {
+  console.error('Error: --range-start and --range-end can only be used with a single input')
+  process.exit(1)
 }
 
-// Read the source file
-const sourceCode = fs.readFileSync(sourceFile, 'utf8')
+const multipleFiles = files.length > 1
 
-if (!quiet) {
-  console.log('Input:', path.relative(process.cwd(), sourceFile))
-  console.log('Size:', sourceCode.length, 'bytes,', sourceCode.split('\n').length, 'lines')
+function relativePath(file: string): string {
+  return path.relative(process.cwd(), file)
 }
 
-// Format using Prettier
-async function run() {
+/**
+ * Print the diff between the original and formatted code (nothing if unchanged)
+ * Diffs are the requested output, so they are printed even in quiet mode
+ */
+function printDiff(displayPath: string, sourceCode: string, formatted: string) {
+  process.stdout.write(createUnifiedDiff(sourceCode, formatted, {
+    oldPath: `a/${displayPath}`,
+    newPath: `b/${displayPath}`,
+    color: process.stdout.isTTY === true && !process.env.NO_COLOR,
+  }))
+}
+
+/**
+ * Check that the formatted code parses to the same syntax tree as the original
+ * @returns An error message describing the first difference, or undefined if equivalent
+ */
+function verifyFormatted(sourceCode: string, formatted: string): string | undefined {
+  const result = checkAstEquivalence(sourceCode, formatted)
+  if (result.equivalent) {
+    return undefined
+  }
+  return `Formatted code is not equivalent to the original: ${result.message}`
+}
+
+/**
+ * Print syntax errors as `file:line:col: error: message` lines that editors
+ * and CI can pick up, each followed by a code frame unless in quiet mode
+ */
+function reportSyntaxErrors(displayPath: string, error: ModelicaSyntaxError) {
+  for (const diagnostic of error.diagnostics) {
+    console.error(formatDiagnostic(diagnostic, displayPath))
+    if (!quiet) {
+      console.error(diagnostic.codeFrame)
+    }
+  }
+}
+
+/**
+ * Node types without a printing rule met in all files (strict mode), with the
+ * number of files they appear in
+ */
+const unhandledNodeTypes = new Map<string, number>()
+
+/**
+ * Print each node type without a printing rule as a `file:line:col: error:`
+ * line, and count it for the summary
+ */
+function reportUnhandledNodes(displayPath: string, error: UnhandledNodeError) {
+  for (const { type, count, range } of error.nodeTypes) {
+    const location = `${displayPath}:${range.start.row + 1}:${range.start.column + 1}`
+    const nodes = count > 1 ? ` (${count} nodes)` : ''
+    console.error(`${location}: error: no printing rule for node type ${type}${nodes}`)
+    unhandledNodeTypes.set(type, (unhandledNodeTypes.get(type) ?? 0) + 1)
+  }
+}
+
+function reportError(file: string, error: unknown) {
+  if (error instanceof ModelicaSyntaxError) {
+    reportSyntaxErrors(relativePath(file), error)
+    return
+  }
+  if (error instanceof UnhandledNodeError) {
+    reportUnhandledNodes(relativePath(file), error)
+    return
+  }
+  const message = error instanceof Error ? error.message : String(error)
+  console.error(`Error: ${relativePath(file)}: ${message}`)
+  if (!quiet && !multipleFiles && error instanceof Error && error.stack) {
+    console.error('')
+    console.error(error.stack)
+  }
+}
+
+// Format using Prettier, with the same configuration `npx prettier` would use for this file
+// (.prettierrc including `overrides` for *.mo, and .editorconfig), then the CLI flags on top
+async function formatSource(sourceCode: string, filepath: string): Promise<string> {
+  const config = await resolveConfig(filepath, { editorconfig: true }) ?? {}
+  return format(sourceCode, {
+    ...config,
+    ...optionOverrides,
+    filepath,
+    parser: 'modelica',
+    plugins: [plugin],
+  })
+}
+
+/**
+ * Stdin mode for editor integrations: only the formatted code goes to stdout,
+ * everything else (including parse failures) goes to stderr
+ */
+async function runStdin() {
+  const displayPath = stdinFilepath ?? '<stdin>'
+  let sourceCode: string
   try {
-    const formatted = await format(sourceCode, {
-      parser: 'modelica',
-      plugins: [plugin],
-      printWidth: 80,
-      tabWidth: 2,
-      useTabs: false,
-    })
+    sourceCode = fs.readFileSync(0, 'utf8')
+  } catch (error) {
+    console.error(`Error: ${displayPath}: Could not read stdin: ${error instanceof Error ? error.message : String(error)}`)
+    process.exit(1)
+  }
+
+  // Code that does not parse fails to format (unless --parse-errors verbatim),
+  // so the editor buffer is never replaced by a corrupted version
+  let formatted: string
+  try {
+    formatted = await formatSource(sourceCode, path.resolve(stdinFilepath ?? 'stdin.mo'))
+  } catch (error) {
+    if (error instanceof ModelicaSyntaxError) {
+      reportSyntaxErrors(displayPath, error)
+    } else if (error instanceof UnhandledNodeError) {
+      reportUnhandledNodes(displayPath, error)
+    } else {
+      console.error(`Error: ${displayPath}: ${error instanceof Error ? error.message : String(error)}`)
+    }
+    process.exit(1)
+  }
+
+  const verifyError = verifyOutput ? verifyFormatted(sourceCode, formatted) : undefined
+  if (verifyError) {
+    console.error(`Error: ${displayPath}: ${verifyError}`)
+    process.exit(1)
+  }
+
+  if (showDiff) {
+    printDiff(displayPath, sourceCode, formatted)
+  }
+
+  if (checkOnly) {
+    if (formatted !== sourceCode && !quiet) {
+      console.error(`✗ ${displayPath} is not formatted`)
+      console.error(`  (checked with ${formatVersionInfo(getVersionInfo())})`)
+    }
+    process.exit(formatted === sourceCode ? 0 : 1)
+  }
+
+  if (!showDiff) {
+    process.stdout.write(formatted)
+  }
+}
+
+async function run() {
+  let failedCount = 0
+  let unformattedCount = 0
+  let changedCount = 0
+
+  for (const sourceFile of files) {
+    // Check file extension
+    if (!sourceFile.endsWith('.mo') && !quiet) {
+      console.warn(`Warning: File does not have .mo extension: ${relativePath(sourceFile)}`)
+    }
+
+    let sourceCode: string
+    let formatted: string
+    try {
+      sourceCode = fs.readFileSync(sourceFile, 'utf8')
+      formatted = await formatSource(sourceCode, sourceFile)
+    } catch (error) {
+      reportError(sourceFile, error)
+      failedCount++
+      continue
+    }
+
+    const verifyError = verifyOutput ? verifyFormatted(sourceCode, formatted) : undefined
+    if (verifyError) {
+      // Not written, not shown: the output would silently change the model
+      console.error(`Error: ${relativePath(sourceFile)}: ${verifyError}`)
+      failedCount++
+      continue
+    }
 
     const isUnchanged = formatted === sourceCode
 
     // Check mode - just verify if formatted
     if (checkOnly) {
-      if (isUnchanged) {
-        if (!quiet) {
-          console.log('✓ File is formatted correctly')
-        }
-        process.exit(0)
-      } else {
-        if (!quiet) {
-          console.log('✗ File is not formatted')
-        }
-        process.exit(1)
+      if (!isUnchanged) {
+        unformattedCount++
+      }
+      if (!quiet) {
+        console.log(`${isUnchanged ? '✓' : '✗'} ${relativePath(sourceFile)}`)
+      }
+      if (showDiff) {
+        printDiff(relativePath(sourceFile), sourceCode, formatted)
+      }
+      continue
+    }
+
+    // Show what formatting changes before writing (or instead of printing the result)
+    if (showDiff) {
+      printDiff(relativePath(sourceFile), sourceCode, formatted)
+      if (!writeOutput && !outputFile) {
+        continue
       }
     }
 
     // Write mode - write to file
     if (writeOutput || outputFile) {
       const targetFile = outputFile ? path.resolve(outputFile) : sourceFile
-      fs.writeFileSync(targetFile, formatted, 'utf8')
+      try {
+        if (!isUnchanged || targetFile !== sourceFile) {
+          fs.writeFileSync(targetFile, formatted, 'utf8')
+        }
+      } catch (error) {
+        reportError(targetFile, error)
+        failedCount++
+        continue
+      }
+      if (!isUnchanged) {
+        changedCount++
+      }
       if (!quiet) {
-        console.log('Output:', path.relative(process.cwd(), targetFile))
-        console.log('Size:', formatted.length, 'bytes,', formatted.split('\n').length, 'lines')
-        console.log(isUnchanged ? '✓ No changes' : '✓ Formatted')
+        const status = isUnchanged ? '✓ No changes' : '✓ Formatted'
+        const target = targetFile === sourceFile ? '' : ` -> ${relativePath(targetFile)}`
+        console.log(`${status}: ${relativePath(sourceFile)}${target}`)
       }
-      process.exit(0)
+      continue
     }
 
     // Default - print to stdout
     if (quiet) {
       process.stdout.write(formatted)
     } else {
+      console.log('Input:', relativePath(sourceFile))
+      console.log('Size:', sourceCode.length, 'bytes,', sourceCode.split('\n').length, 'lines')
       console.log('')
       console.log('--- Formatted Output ---')
       console.log('')
       process.stdout.write(formatted)
+      if (multipleFiles) {
+        console.log('')
+      }
     }
+  }
 
-  } catch (error) {
-    console.error('Error:', error instanceof Error ? error.message : String(error))
-    if (!quiet && error instanceof Error && error.stack) {
-      console.error('')
-      console.error(error.stack)
+  // Summary across all files
+  if (!quiet && multipleFiles) {
+    console.log('')
+    if (checkOnly) {
+      if (unformattedCount === 0 && failedCount === 0) {
+        console.log(`✓ All ${files.length} files are formatted correctly`)
+      } else if (unformattedCount > 0) {
+        // Files that failed are counted separately below
+        console.log(`✗ ${unformattedCount} of ${files.length} files are not formatted`)
+      }
+    } else if (writeOutput) {
+      console.log(`✓ Formatted ${changedCount} of ${files.length} files`)
     }
-    process.exit(1)
   }
+  if (!quiet && failedCount > 0) {
+    console.error(`✗ ${failedCount} file${failedCount === 1 ? '' : 's'} could not be formatted`)
+  }
+  if (!quiet && multipleFiles && unhandledNodeTypes.size > 0) {
+    console.error('Node types without a printing rule:')
+    for (const [type, fileCount] of [...unhandledNodeTypes].sort((a, b) => b[1] - a[1])) {
+      console.error(`  ${type} (${fileCount} file${fileCount === 1 ? '' : 's'})`)
+    }
+  }
+  // Formatting depends on these versions, so CI logs record them
+  if (!quiet && checkOnly) {
+    console.log(`Checked with ${formatVersionInfo(getVersionInfo())}`)
+  }
+
+  process.exit(failedCount > 0 || unformattedCount > 0 || unmatched.length > 0 ? 1 : 0)
 }
 
-run()
+if (stdinMode) {
+  runStdin()
+} else {
+  run()
+}
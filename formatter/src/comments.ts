@@ -0,0 +1,557 @@
+/**
+ * Comment handling for the Modelica printer
+ * Comments are taken out of the tree and attached by Prettier to the nodes
+ * around them, then printed as leading, trailing or dangling comments
+ */
+
+import { doc, util } from "prettier";
+import type { AstPath, Doc } from "prettier";
+import type { ASTNode } from "./parser.js";
+
+const { breakParent, fill, hardline, ifBreak, join, line, lineSuffix } = doc.builders;
+const { replaceEndOfLine } = doc.utils;
+
+/**
+ * Node types of comments (tree-sitter extras)
+ */
+const COMMENT_TYPES = new Set(["comment", "BLOCK_COMMENT"]);
+
+/**
+ * Nodes printed from their source text: comments inside them are already
+ * part of that text and must stay in the tree
+ */
+const TEXT_PRINTED_TYPES = new Set(["class_prefixes", "ERROR"]);
+
+/**
+ * Nodes that never receive comments, either because the printer reads their
+ * text directly (IDENT) or because it prints their children without going
+ * through the node itself (argument lists)
+ */
+const NON_ATTACHABLE_TYPES = new Set([
+  "IDENT",
+  "argument_list",
+  "function_arguments",
+  "named_arguments",
+]);
+
+/**
+ * Nodes that print their own dangling comments (see printDanglingComments).
+ * Comments of an otherwise empty file are dangling on the root node.
+ */
+const DANGLING_COMMENT_TYPES = new Set([
+  "long_class_specifier",
+  "equation_section",
+  "algorithm_section",
+]);
+
+/**
+ * Parts of a class body printed at the indentation of the class itself
+ */
+const CLASS_SECTION_TYPES = new Set([
+  "equation_section",
+  "algorithm_section",
+  "annotation_clause",
+  "external_clause",
+]);
+
+/**
+ * Lists of equations or statements, which end a section or a branch
+ */
+const BODY_LIST_TYPES = new Set(["equation_list", "statement_list"]);
+
+/**
+ * Nodes that end with a list of equations or statements (their last child),
+ * directly or through their last child
+ */
+const BODY_ENDING_TYPES = new Set([
+  "equation_section",
+  "algorithm_section",
+  "else_if_equation_clause",
+  "else_if_statement_clause",
+  "else_if_equation_clause_list",
+  "else_if_statement_clause_list",
+  "else_when_equation_clause",
+  "else_when_statement_clause",
+  "else_when_equation_clause_list",
+  "else_when_statement_clause_list",
+]);
+
+/**
+ * Nodes with a condition followed by `then` and a branch
+ */
+const CONDITIONAL_TYPES = new Set([
+  "if_equation",
+  "if_statement",
+  "else_if_equation_clause",
+  "else_if_statement_clause",
+]);
+
+/**
+ * A comment node as decorated by Prettier's comment attachment
+ */
+interface AttachedComment extends ASTNode {
+  leading?: boolean;
+  trailing?: boolean;
+  printed?: boolean;
+  /** Where the enclosing node prints a dangling comment (see handleKeywordComment) */
+  marker?: string;
+  precedingNode?: ASTNode;
+  enclosingNode?: ASTNode;
+  followingNode?: ASTNode;
+}
+
+/**
+ * Check if a node is a comment
+ */
+export function isComment(node: ASTNode): boolean {
+  return COMMENT_TYPES.has(node.type);
+}
+
+/**
+ * Remove all comments from the tree and return them in source order.
+ * The returned list is what Prettier expects in the root's `comments`.
+ */
+export function extractComments(root: ASTNode): ASTNode[] {
+  const comments: ASTNode[] = [];
+  const visit = (node: ASTNode) => {
+    if (TEXT_PRINTED_TYPES.has(node.type)) {
+      return;
+    }
+    node.children = node.children.filter((child) => {
+      if (isComment(child)) {
+        comments.push(child);
+        return false;
+      }
+      return true;
+    });
+    node.children.forEach(visit);
+  };
+  visit(root);
+  return comments.sort((a, b) => a.startIndex - b.startIndex);
+}
+
+/**
+ * Print a comment. It is printed as written, unless modelicaReflowComments is
+ * set: line comments on their own line are then wrapped at printWidth, and
+ * block comments are re-indented (see reflowLineComment and
+ * reindentBlockComment).
+ */
+export function printComment(commentPath: AstPath<ASTNode>, options: object): Doc {
+  const comment = commentPath.node;
+  const text = comment.text ?? "";
+  const { modelicaReflowComments, originalText } = options as {
+    modelicaReflowComments?: boolean;
+    originalText: string;
+  };
+  if (modelicaReflowComments) {
+    const lineStart = originalText.lastIndexOf("\n", comment.startIndex - 1) + 1;
+    const before = originalText.slice(lineStart, comment.startIndex);
+    if (comment.type === "BLOCK_COMMENT") {
+      return reindentBlockComment(text, before.match(/^[ \t]*/)![0]);
+    }
+    if (before.trim() === "") {
+      return reflowLineComment(text);
+    }
+  }
+  return replaceEndOfLine(text);
+}
+
+/**
+ * Check if the text of a line comment is prose that can be wrapped, rather
+ * than commented-out code, ASCII art or a table (indented or aligned with
+ * several spaces)
+ */
+function isProse(body: string): boolean {
+  return (
+    /^\S/.test(body) &&
+    !/\t| {2,}/.test(body) &&
+    !/([-=*_#~+<>|\\/.])\1\1/.test(body) &&
+    !/[;{}]\s*$|:=|^[\w.]+\s*[(=]/.test(body)
+  );
+}
+
+/**
+ * Wrap a line comment that is longer than the line into consecutive line
+ * comments with the same prefix (e.g. `// `). Formatting directives and
+ * comments that are not prose are printed as written.
+ */
+function reflowLineComment(text: string): Doc {
+  const [, prefix, body] = /^(\/\/[/!]*\s?)(.*)$/.exec(text.trimEnd())!;
+  if (/^\s*modelica-format/.test(body) || !isProse(body)) {
+    return text;
+  }
+  const words = body.split(" ");
+  const separator = ifBreak([line, prefix], " ");
+  return [prefix, fill(join(separator, words) as Doc[])];
+}
+
+/**
+ * Re-indent the continuation lines of a block comment: they keep their
+ * indentation relative to the line the comment starts on, at the new nesting
+ * level. Comments with lines indented less than that line are printed as
+ * written.
+ * @param indentation Leading whitespace of the line the comment started on
+ */
+function reindentBlockComment(text: string, indentation: string): Doc {
+  const lines = text.split("\n");
+  const [first, ...rest] = lines;
+  if (
+    rest.length === 0 ||
+    rest.some((row) => row.trim() !== "" && !row.startsWith(indentation))
+  ) {
+    return replaceEndOfLine(text);
+  }
+  return join(hardline, [
+    first,
+    ...rest.map((row) => (row.trim() === "" ? "" : row.slice(indentation.length))),
+  ]);
+}
+
+/**
+ * Check if comments can be attached to a node
+ */
+export function canAttachComment(node: ASTNode): boolean {
+  return (
+    typeof node.type === "string" &&
+    !isComment(node) &&
+    !NON_ATTACHABLE_TYPES.has(node.type)
+  );
+}
+
+/**
+ * Child nodes considered when looking for the neighbours of a comment
+ */
+export function getCommentChildNodes(node: ASTNode): ASTNode[] {
+  return node.children;
+}
+
+/**
+ * Only `children` holds child nodes; other properties (e.g. the tree-sitter
+ * node) must not be traversed
+ */
+export function getVisitorKeys(): string[] {
+  return ["children"];
+}
+
+/**
+ * A comment without neighbours would become a dangling comment. Only a few
+ * nodes print those themselves; everywhere else the comment is kept after
+ * the enclosing node so that it is not lost.
+ */
+function handleDanglingComment(comment: AttachedComment): boolean {
+  const { precedingNode, followingNode, enclosingNode } = comment;
+  if (precedingNode || followingNode || !enclosingNode) {
+    return false;
+  }
+  if (DANGLING_COMMENT_TYPES.has(enclosingNode.type)) {
+    return false;
+  }
+  util.addTrailingComment(enclosingNode, comment);
+  return true;
+}
+
+/**
+ * A comment on its own line before a section keyword (`equation`,
+ * `annotation`, ...) or before `end` belongs to the class content above it.
+ * Attaching it to the following section would print it at the indentation of
+ * the class, so it is kept with the preceding elements, equations or
+ * statements instead.
+ */
+function handleClassBodyComment(comment: AttachedComment): boolean {
+  const { precedingNode, followingNode, enclosingNode } = comment;
+  if (enclosingNode?.type !== "long_class_specifier" || !precedingNode) {
+    return false;
+  }
+  if (followingNode && !CLASS_SECTION_TYPES.has(followingNode.type)) {
+    return false;
+  }
+  if (
+    precedingNode.type === "equation_section" ||
+    precedingNode.type === "algorithm_section"
+  ) {
+    const list = precedingNode.children[precedingNode.children.length - 1];
+    if (list) {
+      util.addTrailingComment(list, comment);
+    } else {
+      util.addDanglingComment(precedingNode, comment, undefined);
+    }
+    return true;
+  }
+  if (CLASS_SECTION_TYPES.has(precedingNode.type)) {
+    return false;
+  }
+  util.addTrailingComment(precedingNode, comment);
+  return true;
+}
+
+/**
+ * The list of equations or statements a node ends with, if any
+ */
+function getEndingList(node: ASTNode): ASTNode | undefined {
+  let current: ASTNode | undefined = node;
+  while (current && !BODY_LIST_TYPES.has(current.type)) {
+    if (!BODY_ENDING_TYPES.has(current.type)) {
+      return undefined;
+    }
+    current = current.children[current.children.length - 1];
+  }
+  return current;
+}
+
+/**
+ * Source text between the preceding node of a comment and the comment, with
+ * the comments in between left out: the keywords separating them, if any
+ */
+function getTextBefore(comment: AttachedComment, text: string): string {
+  const start = comment.precedingNode?.endIndex ?? comment.startIndex;
+  return text
+    .slice(start, comment.startIndex)
+    .replace(/\/\/[^\n]*|\/\*[\s\S]*?\*\//g, "")
+    .trim();
+}
+
+/**
+ * A comment right after the equations or statements ending a section or a
+ * branch (`if`, `elseif`, `else`, `when`, `elsewhen`) belongs to that list,
+ * even though it comes after the end of the enclosing nodes: attaching it to
+ * the node that ends there, or to the following branch, would move it across
+ * the branch, or print it out of order with the other comments of the list.
+ */
+function handleBodyEndComment(comment: AttachedComment, text: string): boolean {
+  const { precedingNode } = comment;
+  if (!precedingNode || getTextBefore(comment, text) !== "") {
+    return false;
+  }
+  const list = getEndingList(precedingNode);
+  if (!list) {
+    return false;
+  }
+  util.addTrailingComment(list, comment);
+  return true;
+}
+
+/**
+ * A comment at the end of the line of a condition's `then`, or of `else`, is
+ * printed after that keyword by the enclosing node (see printKeywordComments
+ * in the printer). As a trailing comment of the condition, it would be
+ * printed before `then` and push `then` onto a line of its own; attached to
+ * the branch before `else`, it would move to that branch.
+ */
+function handleKeywordComment(comment: AttachedComment, text: string): boolean {
+  const { precedingNode, followingNode, enclosingNode } = comment;
+  if (!enclosingNode || !CONDITIONAL_TYPES.has(enclosingNode.type) || !precedingNode) {
+    return false;
+  }
+  if (followingNode && !BODY_LIST_TYPES.has(followingNode.type)) {
+    return false;
+  }
+  const keyword = getTextBefore(comment, text);
+  if (precedingNode.type === "expression" && keyword === "then") {
+    util.addDanglingComment(enclosingNode, comment, "then");
+    return true;
+  }
+  if (followingNode && keyword === "else") {
+    util.addDanglingComment(enclosingNode, comment, "else");
+    return true;
+  }
+  return false;
+}
+
+export const handleComments = {
+  ownLine: (comment: AttachedComment, text: string) =>
+    handleBodyEndComment(comment, text) ||
+    handleClassBodyComment(comment) ||
+    handleDanglingComment(comment),
+  endOfLine: (comment: AttachedComment, text: string) =>
+    handleBodyEndComment(comment, text) ||
+    handleKeywordComment(comment, text) ||
+    handleDanglingComment(comment),
+  remaining: handleDanglingComment,
+};
+
+/**
+ * Print the dangling comments of the current node, one per line
+ * @param marker Only print the comments attached with this marker (see
+ *   handleKeywordComment)
+ * @returns The printed comments, or an empty array if there are none
+ */
+export function printDanglingComments(
+  path: AstPath<ASTNode>,
+  options: object,
+  marker?: string,
+): Doc[] {
+  const parts: Doc[] = [];
+  if (!path.node.comments) {
+    return parts;
+  }
+  path.each((commentPath) => {
+    const comment = commentPath.node as AttachedComment;
+    if (!comment.leading && !comment.trailing && comment.marker === marker) {
+      comment.printed = true;
+      parts.push(printComment(commentPath as AstPath<ASTNode>, options));
+    }
+  }, "comments" as never);
+  return parts;
+}
+
+/**
+ * With modelicaMaxBlankLines 0, the printer prints the leading and trailing
+ * comments of nodes itself (see printCommentsWithoutBlankLines): Prettier
+ * keeps a blank line after a leading comment and before a trailing comment
+ * on its own line. HTML strings are left to Prettier, as the printer does not
+ * see them when they are formatted as embedded HTML.
+ */
+export function willPrintOwnComments(path: AstPath<ASTNode>, options: object): boolean {
+  const { node } = path;
+  return (
+    (options as { modelicaMaxBlankLines?: number }).modelicaMaxBlankLines === 0 &&
+    node.type !== "STRING" &&
+    (node.comments?.length ?? 0) > 0
+  );
+}
+
+/**
+ * Print the leading and trailing comments of the current node around it, as
+ * Prettier does, without blank lines between the comments and the node
+ */
+export function printCommentsWithoutBlankLines(
+  path: AstPath<ASTNode>,
+  options: object,
+  printed: Doc,
+): Doc {
+  const { originalText } = options as { originalText: string };
+  const leading: Doc[] = [];
+  const trailing: Doc[] = [];
+  // Whether the previous trailing comment went to the end of the line
+  let previousLineSuffix: { isBlock: boolean } | undefined;
+  path.each((commentPath) => {
+    const comment = commentPath.node as AttachedComment;
+    const isBlock = comment.type === "BLOCK_COMMENT";
+    if (comment.leading) {
+      comment.printed = true;
+      leading.push(printComment(commentPath as AstPath<ASTNode>, options));
+      if (!isBlock) {
+        leading.push(hardline);
+      } else if (util.hasNewline(originalText, comment.endIndex)) {
+        leading.push(
+          util.hasNewline(originalText, comment.startIndex, { backwards: true }) ? hardline : line,
+        );
+      } else {
+        leading.push(" ");
+      }
+    } else if (comment.trailing) {
+      comment.printed = true;
+      const text = printComment(commentPath as AstPath<ASTNode>, options);
+      if (
+        (previousLineSuffix && !previousLineSuffix.isBlock) ||
+        util.hasNewline(originalText, comment.startIndex, { backwards: true })
+      ) {
+        trailing.push(lineSuffix([hardline, text]));
+        previousLineSuffix = { isBlock };
+      } else if (!isBlock || previousLineSuffix) {
+        trailing.push([lineSuffix([" ", text]), breakParent]);
+        previousLineSuffix = { isBlock };
+      } else {
+        trailing.push([" ", text]);
+        previousLineSuffix = undefined;
+      }
+    }
+  }, "comments" as never);
+  return [leading, printed, trailing];
+}
+
+/**
+ * All comments of the file being printed, in source order (the same objects
+ * Prettier attaches and marks as printed)
+ */
+function getFileComments(root: ASTNode): AttachedComment[] {
+  return root.fileComments ?? [];
+}
+
+/**
+ * Mark comments as printed when the text containing them is output verbatim,
+ * so that Prettier doesn't report them as lost
+ */
+export function markCommentsPrinted(
+  root: ASTNode,
+  predicate: (comment: ASTNode) => boolean,
+): void {
+  for (const comment of getFileComments(root)) {
+    if (predicate(comment)) {
+      comment.printed = true;
+    }
+  }
+}
+
+/**
+ * A `// modelica-format off`, `// modelica-format on` or
+ * `// modelica-format-ignore` comment on its own line
+ */
+export interface FormatDirective {
+  kind: "off" | "on" | "ignore";
+  comment: ASTNode;
+}
+
+/**
+ * Directives of each file, keyed by its list of comments
+ */
+const directiveCache = new WeakMap<object, FormatDirective[]>();
+
+/**
+ * Find the formatting directives of the file being printed
+ */
+export function getFormatDirectives(root: ASTNode, text: string): FormatDirective[] {
+  const comments = getFileComments(root);
+  let directives = directiveCache.get(comments);
+  if (!directives) {
+    directives = [];
+    for (const comment of comments) {
+      const match = /^\/\/\s*modelica-format(?:\s+(off|on)|(-ignore))\b/.exec(comment.text ?? "");
+      const lineStart = text.lastIndexOf("\n", comment.startIndex - 1) + 1;
+      if (match && text.slice(lineStart, comment.startIndex).trim() === "") {
+        directives.push({ kind: (match[1] ?? "ignore") as FormatDirective["kind"], comment });
+      }
+    }
+    directiveCache.set(comments, directives);
+  }
+  return directives;
+}
+
+/**
+ * Directives among the comments right before a node, with nothing but
+ * whitespace and other comments between them and the node
+ */
+export function getDirectivesBefore(
+  node: ASTNode,
+  root: ASTNode,
+  text: string,
+): FormatDirective[] {
+  const directives = getFormatDirectives(root, text);
+  if (directives.length === 0) {
+    return [];
+  }
+  const comments = getFileComments(root);
+
+  // Last comment ending before the node
+  let low = 0;
+  let high = comments.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (comments[middle].endIndex <= node.startIndex) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+
+  let start = node.startIndex;
+  for (let i = low - 1; i >= 0; i--) {
+    if (text.slice(comments[i].endIndex, start).trim() !== "") {
+      break;
+    }
+    start = comments[i].startIndex;
+  }
+  return directives.filter(
+    ({ comment }) => comment.startIndex >= start && comment.endIndex <= node.startIndex,
+  );
+}
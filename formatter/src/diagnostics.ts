@@ -0,0 +1,228 @@
+/**
+ * Syntax error diagnostics
+ * Turns the ERROR and MISSING nodes of a tree-sitter tree into located
+ * messages with code frames
+ */
+
+import type { SyntaxNode } from "./backend.js";
+import type { Range } from "./parser.js";
+
+/**
+ * Node types that never count as expected or found tokens
+ */
+const IGNORED_TYPES = new Set(["ERROR", "comment", "BLOCK_COMMENT", "BOM"]);
+
+/**
+ * Expected token lists longer than this are left out of messages
+ */
+const MAX_EXPECTED_IN_MESSAGE = 10;
+
+/**
+ * Lines of context shown above and below the error in code frames
+ */
+const CODE_FRAME_CONTEXT = 2;
+
+/**
+ * A syntax error found by the parser
+ */
+export interface Diagnostic {
+  /** `unexpected` for code the parser skipped (ERROR), `missing` for code it inserted (MISSING) */
+  kind: "unexpected" | "missing";
+  /** Location of the error (0-based rows and columns) */
+  range: Range;
+  startIndex: number;
+  endIndex: number;
+  /** Human-readable description */
+  message: string;
+  /** Node types that would have been valid here, when tree-sitter knows them */
+  expected: string[];
+  /** Node type of the first token the parser could not use (or the one after a missing node) */
+  found?: string;
+  /** Source lines around the error, with the error marked */
+  codeFrame: string;
+}
+
+/**
+ * First token of a node
+ */
+function firstLeaf(node: SyntaxNode): SyntaxNode {
+  let leaf = node;
+  while (leaf.childCount > 0) {
+    leaf = leaf.child(0)!;
+  }
+  return leaf;
+}
+
+/**
+ * Token right before a node, skipping comments
+ */
+function previousLeaf(node: SyntaxNode): SyntaxNode | null {
+  let current: SyntaxNode | null = node;
+  while (current) {
+    let sibling = current.previousSibling;
+    while (sibling && IGNORED_TYPES.has(sibling.type)) {
+      sibling = sibling.previousSibling;
+    }
+    if (sibling) {
+      let leaf = sibling;
+      while (leaf.childCount > 0) {
+        leaf = leaf.child(leaf.childCount - 1)!;
+      }
+      return leaf;
+    }
+    current = current.parent;
+  }
+  return null;
+}
+
+/**
+ * Token right after a node
+ */
+function nextLeaf(node: SyntaxNode): SyntaxNode | null {
+  let current: SyntaxNode | null = node;
+  while (current) {
+    if (current.nextSibling) {
+      return firstLeaf(current.nextSibling);
+    }
+    current = current.parent;
+  }
+  return null;
+}
+
+/**
+ * Tokens the parser would have accepted after the given token.
+ * Tree-sitter only knows this while the parse state is still available
+ * (not after a reduction), so the list is often empty.
+ */
+function expectedAfter(
+  lookahead: (state: number) => string[],
+  leaf: SyntaxNode | null,
+): string[] {
+  if (!leaf || leaf.nextParseState <= 0) {
+    return [];
+  }
+  try {
+    return [...new Set(lookahead(leaf.nextParseState))].filter((type) => !IGNORED_TYPES.has(type));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Render the source lines around a range, marking the range with carets
+ */
+export function renderCodeFrame(source: string, range: Range): string {
+  const lines = source.split(/\r?\n/);
+  // No empty line after the final newline, unless that's where the error is
+  if (lines.length > 1 && lines[lines.length - 1] === "" && range.end.row < lines.length - 1) {
+    lines.pop();
+  }
+  const first = Math.max(0, range.start.row - CODE_FRAME_CONTEXT);
+  const last = Math.min(lines.length - 1, range.end.row + CODE_FRAME_CONTEXT);
+  const width = String(last + 1).length;
+  const frame: string[] = [];
+
+  for (let row = first; row <= last; row++) {
+    const isErrorLine = row === range.start.row;
+    const gutter = `${isErrorLine ? ">" : " "} ${String(row + 1).padStart(width)} |`;
+    frame.push(lines[row] ? `${gutter} ${lines[row]}` : gutter);
+    if (isErrorLine) {
+      const endColumn =
+        range.end.row === row ? range.end.column : lines[row].length;
+      const length = Math.max(1, endColumn - range.start.column);
+      const padding = lines[row].slice(0, range.start.column).replace(/[^\t]/g, " ");
+      frame.push(`  ${" ".repeat(width)} | ${padding}${"^".repeat(length)}`);
+    }
+  }
+
+  return frame.join("\n");
+}
+
+/**
+ * Quote a token for messages, shortened to its first line
+ */
+function quote(text: string): string {
+  const line = text.split("\n")[0];
+  return JSON.stringify(line.length > 40 ? `${line.slice(0, 40)}...` : line);
+}
+
+/**
+ * Collect the diagnostics of a tree, in source order.
+ * Nested errors are reported once, by their outermost ERROR node.
+ *
+ * @param root Root node of the tree-sitter tree
+ * @param source Source text the tree was parsed from
+ * @param lookahead Node types valid in a parse state, used to look up expected tokens
+ */
+export function collectDiagnostics(
+  root: SyntaxNode,
+  source: string,
+  lookahead: (state: number) => string[],
+): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+
+  const visit = (node: SyntaxNode) => {
+    if (node.isMissing || node.type === "ERROR") {
+      const range: Range = { start: node.startPosition, end: node.endPosition };
+      const expected = node.isMissing
+        ? [node.type]
+        : expectedAfter(lookahead, previousLeaf(node));
+      const found = node.isMissing ? nextLeaf(node)?.type : firstLeaf(node).type;
+
+      let message = node.isMissing
+        ? `Missing ${node.isNamed ? node.type : quote(node.type)}`
+        : `Unexpected ${quote(node.text)}`;
+      if (!node.isMissing && expected.length > 0 && expected.length <= MAX_EXPECTED_IN_MESSAGE) {
+        message += `, expected ${expected.map((type) => quote(type)).join(", ")}`;
+      }
+
+      diagnostics.push({
+        kind: node.isMissing ? "missing" : "unexpected",
+        range,
+        startIndex: node.startIndex,
+        endIndex: node.endIndex,
+        message,
+        expected,
+        found,
+        codeFrame: renderCodeFrame(source, range),
+      });
+      return;
+    }
+    if (node.hasError) {
+      for (const child of node.children) {
+        if (child) {
+          visit(child);
+        }
+      }
+    }
+  };
+
+  visit(root);
+  return diagnostics;
+}
+
+/**
+ * Format a diagnostic the way compilers do: `file:line:col: error: message`
+ * (1-based line and column)
+ */
+export function formatDiagnostic(diagnostic: Diagnostic, file: string): string {
+  const { row, column } = diagnostic.range.start;
+  return `${file}:${row + 1}:${column + 1}: error: ${diagnostic.message}`;
+}
+
+/**
+ * Error thrown when formatting code with syntax errors
+ */
+export class ModelicaSyntaxError extends SyntaxError {
+  readonly diagnostics: Diagnostic[];
+  /** Location of the first error (1-based), Prettier adds a code frame for it */
+  readonly loc: { start: { line: number; column: number } };
+
+  constructor(message: string, diagnostics: Diagnostic[]) {
+    super(message);
+    this.name = "SyntaxError";
+    this.diagnostics = diagnostics;
+    const first = diagnostics[0]?.range.start ?? { row: 0, column: 0 };
+    this.loc = { start: { line: first.row + 1, column: first.column + 1 } };
+  }
+}
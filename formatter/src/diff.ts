@@ -0,0 +1,301 @@
+/**
+ * Unified diff generation for the CLI
+ * Line-based Myers diff between the original source and the formatted output
+ */
+
+/**
+ * A single line-level edit
+ */
+interface DiffOp {
+  type: "equal" | "delete" | "insert";
+  /** Line content including its trailing newline (if any) */
+  line: string;
+  /** 0-based line index in the original text (next line for inserts) */
+  oldIndex: number;
+  /** 0-based line index in the new text (next line for deletes) */
+  newIndex: number;
+}
+
+/**
+ * Options for createUnifiedDiff
+ */
+export interface UnifiedDiffOptions {
+  /** Path shown in the `---` header */
+  oldPath?: string;
+  /** Path shown in the `+++` header */
+  newPath?: string;
+  /** Number of unchanged lines shown around each change */
+  context?: number;
+  /** Add ANSI colors (for terminal output) */
+  color?: boolean;
+}
+
+const ANSI = {
+  reset: "\x1b[0m",
+  bold: "\x1b[1m",
+  red: "\x1b[31m",
+  green: "\x1b[32m",
+  cyan: "\x1b[36m",
+};
+
+/**
+ * Split text into lines, keeping the trailing newline on each line so that a
+ * missing newline at end of file shows up as a difference
+ */
+function splitLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+/**
+ * Find the middle snake of the shortest edit script between
+ * `a[aStart..aEnd)` and `b[bStart..bEnd)` (Myers' linear-space variant,
+ * searching forwards and backwards at the same time)
+ * @returns The snake `[x, y, u, v]` from `(x, y)` to `(u, v)` in absolute
+ *   indices, and the length of the edit script
+ */
+function findMiddleSnake(
+  a: string[],
+  aStart: number,
+  aEnd: number,
+  b: string[],
+  bStart: number,
+  bEnd: number,
+): { snake: [number, number, number, number]; distance: number } {
+  const n = aEnd - aStart;
+  const m = bEnd - bStart;
+  const delta = n - m;
+  const odd = (delta & 1) !== 0;
+  const max = Math.ceil((n + m) / 2);
+  const offset = max + 1;
+  // Furthest x on each diagonal k, from the start (forward) and from the end (backward)
+  const forward = new Int32Array(2 * max + 3);
+  const backward = new Int32Array(2 * max + 3);
+
+  for (let d = 0; d <= max; d++) {
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && forward[offset + k - 1] < forward[offset + k + 1])
+          ? forward[offset + k + 1]
+          : forward[offset + k - 1] + 1;
+      let y = x - k;
+      const x0 = x;
+      const y0 = y;
+      while (x < n && y < m && a[aStart + x] === b[bStart + y]) {
+        x++;
+        y++;
+      }
+      forward[offset + k] = x;
+      // Diagonal k of the forward search is diagonal delta - k of the backward one
+      if (odd && k >= delta - (d - 1) && k <= delta + (d - 1) && x + backward[offset + delta - k] >= n) {
+        return {
+          snake: [aStart + x0, bStart + y0, aStart + x, bStart + y],
+          distance: 2 * d - 1,
+        };
+      }
+    }
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && backward[offset + k - 1] < backward[offset + k + 1])
+          ? backward[offset + k + 1]
+          : backward[offset + k - 1] + 1;
+      let y = x - k;
+      const x0 = x;
+      const y0 = y;
+      while (x < n && y < m && a[aEnd - 1 - x] === b[bEnd - 1 - y]) {
+        x++;
+        y++;
+      }
+      backward[offset + k] = x;
+      if (!odd && k >= delta - d && k <= delta + d && x + forward[offset + delta - k] >= n) {
+        return {
+          snake: [aEnd - x, bEnd - y, aEnd - x0, bEnd - y0],
+          distance: 2 * d,
+        };
+      }
+    }
+  }
+  throw new Error("No middle snake found");
+}
+
+/**
+ * Append the shortest edit script between `a[aStart..aEnd)` and
+ * `b[bStart..bEnd)` to `ops`, splitting the problem at its middle snake so
+ * that memory stays linear in the number of lines
+ */
+function diffRange(
+  a: string[],
+  aStart: number,
+  aEnd: number,
+  b: string[],
+  bStart: number,
+  bEnd: number,
+  ops: DiffOp[],
+): void {
+  if (aStart === aEnd || bStart === bEnd) {
+    for (let x = aStart; x < aEnd; x++) {
+      ops.push({ type: "delete", line: a[x], oldIndex: x, newIndex: bStart });
+    }
+    for (let y = bStart; y < bEnd; y++) {
+      ops.push({ type: "insert", line: b[y], oldIndex: aEnd, newIndex: y });
+    }
+    return;
+  }
+
+  const { snake, distance } = findMiddleSnake(a, aStart, aEnd, b, bStart, bEnd);
+  if (distance > 1) {
+    const [x, y, u, v] = snake;
+    diffRange(a, aStart, x, b, bStart, y, ops);
+    for (let i = 0; i < u - x; i++) {
+      ops.push({ type: "equal", line: a[x + i], oldIndex: x + i, newIndex: y + i });
+    }
+    diffRange(a, u, aEnd, b, v, bEnd, ops);
+    return;
+  }
+
+  // At most one line was inserted or deleted: equal lines around it
+  let x = aStart;
+  let y = bStart;
+  while (x < aEnd && y < bEnd && a[x] === b[y]) {
+    ops.push({ type: "equal", line: a[x], oldIndex: x, newIndex: y });
+    x++;
+    y++;
+  }
+  if (aEnd - x > bEnd - y) {
+    ops.push({ type: "delete", line: a[x], oldIndex: x, newIndex: y });
+    x++;
+  } else if (bEnd - y > aEnd - x) {
+    ops.push({ type: "insert", line: b[y], oldIndex: x, newIndex: y });
+    y++;
+  }
+  while (x < aEnd) {
+    ops.push({ type: "equal", line: a[x], oldIndex: x, newIndex: y });
+    x++;
+    y++;
+  }
+}
+
+/**
+ * Compute the shortest edit script between two line arrays (Myers' algorithm)
+ */
+function diffLines(a: string[], b: string[]): DiffOp[] {
+  // Strip common prefix and suffix - formatting changes are usually local
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const ops: DiffOp[] = [];
+  for (let i = 0; i < prefix; i++) {
+    ops.push({ type: "equal", line: a[i], oldIndex: i, newIndex: i });
+  }
+  diffRange(a, prefix, a.length - suffix, b, prefix, b.length - suffix, ops);
+  for (let i = suffix; i > 0; i--) {
+    ops.push({
+      type: "equal",
+      line: a[a.length - i],
+      oldIndex: a.length - i,
+      newIndex: b.length - i,
+    });
+  }
+  return ops;
+}
+
+/**
+ * Format a hunk range (`start,count`) using unified diff conventions
+ */
+function formatRange(start: number, count: number): string {
+  // An empty range refers to the line before it
+  const first = count === 0 ? start : start + 1;
+  return count === 1 ? `${first}` : `${first},${count}`;
+}
+
+/**
+ * Create a unified diff between two texts
+ * @returns The diff, or an empty string if the texts are identical
+ */
+export function createUnifiedDiff(
+  oldText: string,
+  newText: string,
+  options: UnifiedDiffOptions = {},
+): string {
+  if (oldText === newText) {
+    return "";
+  }
+
+  const {
+    oldPath = "original",
+    newPath = "formatted",
+    context = 3,
+    color = false,
+  } = options;
+  const paint = (code: string, text: string) =>
+    color ? `${code}${text}${ANSI.reset}` : text;
+
+  const ops = diffLines(splitLines(oldText), splitLines(newText));
+  const output: string[] = [
+    paint(ANSI.bold, `--- ${oldPath}`),
+    paint(ANSI.bold, `+++ ${newPath}`),
+  ];
+
+  let i = 0;
+  while (i < ops.length) {
+    // Find the next change
+    while (i < ops.length && ops[i].type === "equal") i++;
+    if (i >= ops.length) break;
+
+    // Extend the hunk until there is a run of more than 2 * context unchanged lines
+    const start = Math.max(0, i - context);
+    let end = i;
+    while (end < ops.length) {
+      if (ops[end].type !== "equal") {
+        end++;
+        continue;
+      }
+      let run = end;
+      while (run < ops.length && ops[run].type === "equal") run++;
+      if (run >= ops.length || run - end > 2 * context) {
+        end = Math.min(run, end + context);
+        break;
+      }
+      end = run;
+    }
+
+    const hunk = ops.slice(start, end);
+    const oldCount = hunk.filter((op) => op.type !== "insert").length;
+    const newCount = hunk.filter((op) => op.type !== "delete").length;
+    output.push(
+      paint(
+        ANSI.cyan,
+        `@@ -${formatRange(hunk[0].oldIndex, oldCount)} +${formatRange(hunk[0].newIndex, newCount)} @@`,
+      ),
+    );
+
+    for (const op of hunk) {
+      const marker = op.type === "equal" ? " " : op.type === "delete" ? "-" : "+";
+      const content = op.line.endsWith("\n") ? op.line.slice(0, -1) : op.line;
+      const text = marker + content;
+      output.push(
+        op.type === "delete"
+          ? paint(ANSI.red, text)
+          : op.type === "insert"
+            ? paint(ANSI.green, text)
+            : text,
+      );
+      if (!op.line.endsWith("\n")) {
+        output.push("\\ No newline at end of file");
+      }
+    }
+
+    i = end;
+  }
+
+  return output.join("\n") + "\n";
+}
@@ -0,0 +1,264 @@
+/**
+ * Incrementally re-parsed Modelica document
+ * Keeps the tree-sitter tree of a document that is edited over time (language
+ * servers, watch mode) and only re-parses the parts touched by each edit
+ */
+
+import type { Backend, Tree } from "./backend.js";
+import { createParseResult, getBackend } from "./parser.js";
+import type { ASTNode, ParseOptions, ParseResult, Position, Range } from "./parser.js";
+
+/**
+ * A change to the text of a document
+ */
+export interface TextEdit {
+  /** Start of the replaced text (0-based row and column) */
+  start: Position;
+  /** End of the replaced text, in the document before the edit */
+  end: Position;
+  /** Text inserted in place of the replaced text */
+  text: string;
+}
+
+/**
+ * A part of the document whose syntax tree changed
+ */
+export interface ChangedRange {
+  range: Range;
+  startIndex: number;
+  endIndex: number;
+}
+
+/**
+ * Position at the end of `text`, when it is inserted at `start`
+ */
+function endOfInsertion(start: Position, text: string): Position {
+  const lines = text.split("\n");
+  if (lines.length === 1) {
+    return { row: start.row, column: start.column + text.length };
+  }
+  return { row: start.row + lines.length - 1, column: lines[lines.length - 1].length };
+}
+
+/**
+ * A Modelica document and its syntax tree
+ *
+ * Edits are applied to the previous tree with `tree.edit()` and the text is
+ * then re-parsed incrementally, reusing the unchanged parts of the tree.
+ * `rootNode` (and the nodes reached from it) always reflect the current text;
+ * nodes obtained before an edit describe the old text and must not be reused.
+ * Columns and indices count UTF-16 code units, like JavaScript strings.
+ *
+ * ```ts
+ * const document = new ModelicaDocument(source);
+ * const changes = document.edit({ start, end, text: "Real y;" });
+ * const node = findNodeAtPosition(document.rootNode, start.row, start.column);
+ * ```
+ */
+export class ModelicaDocument {
+  private source: string;
+  private tree: Tree;
+  /** Backend of the first parse, which must also parse the edited trees */
+  private readonly backend: Backend;
+  private result: ParseResult;
+  private readonly includeTokens: boolean;
+  /** Index of the first character of each line, computed when needed */
+  private lineStarts?: number[];
+  /** Spans of the current text inserted by edits not yet re-parsed */
+  private editedSpans: Array<[number, number]> = [];
+
+  constructor(sourceCode: string, options: Pick<ParseOptions, "includeTokens"> = {}) {
+    this.includeTokens = options.includeTokens ?? false;
+    this.source = sourceCode;
+    this.backend = getBackend();
+    this.tree = this.backend.parse(sourceCode);
+    this.result = createParseResult(this.tree, sourceCode, this.includeTokens, this.backend);
+  }
+
+  /** Current text of the document */
+  get text(): string {
+    return this.source;
+  }
+
+  /** Root of the syntax tree of the current text */
+  get rootNode(): ASTNode {
+    return this.result.rootNode;
+  }
+
+  /** Syntax tree and syntax errors of the current text */
+  get parseResult(): ParseResult {
+    return this.result;
+  }
+
+  /**
+   * Apply edits and re-parse the document.
+   * Several edits are applied in order, each one to the text produced by the
+   * previous one (like the content changes of an LSP `didChange`).
+   * @returns The parts of the new text whose syntax tree changed
+   */
+  edit(edits: TextEdit | TextEdit[]): ChangedRange[] {
+    for (const edit of Array.isArray(edits) ? edits : [edits]) {
+      this.applyEdit(edit);
+    }
+    return this.reparse();
+  }
+
+  /**
+   * Replace the whole text of the document (e.g. after the file changed on
+   * disk). The edit is narrowed to the part between the common prefix and
+   * suffix of the old and new text, so the rest of the tree is reused.
+   * @returns The parts of the new text whose syntax tree changed
+   */
+  setText(sourceCode: string): ChangedRange[] {
+    const old = this.source;
+    const maxLength = Math.min(old.length, sourceCode.length);
+    let prefix = 0;
+    while (prefix < maxLength && old[prefix] === sourceCode[prefix]) {
+      prefix++;
+    }
+    let suffix = 0;
+    while (
+      suffix < maxLength - prefix &&
+      old[old.length - 1 - suffix] === sourceCode[sourceCode.length - 1 - suffix]
+    ) {
+      suffix++;
+    }
+    if (prefix === old.length && prefix === sourceCode.length) {
+      return [];
+    }
+    return this.edit({
+      start: this.positionAt(prefix),
+      end: this.positionAt(old.length - suffix),
+      text: sourceCode.slice(prefix, sourceCode.length - suffix),
+    });
+  }
+
+  /**
+   * Index in the text of a position, clamped to the line and the text
+   */
+  offsetAt(position: Position): number {
+    const lineStarts = this.getLineStarts();
+    if (position.row >= lineStarts.length) {
+      return this.source.length;
+    }
+    const lineStart = lineStarts[position.row];
+    const lineEnd =
+      position.row + 1 < lineStarts.length ? lineStarts[position.row + 1] - 1 : this.source.length;
+    return Math.min(lineStart + Math.max(0, position.column), lineEnd);
+  }
+
+  /**
+   * Position of an index in the text
+   */
+  positionAt(offset: number): Position {
+    const lineStarts = this.getLineStarts();
+    const index = Math.max(0, Math.min(offset, this.source.length));
+    // Last line starting at or before the index
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (lineStarts[middle] <= index) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+    return { row: low, column: index - lineStarts[low] };
+  }
+
+  private getLineStarts(): number[] {
+    if (!this.lineStarts) {
+      const lineStarts = [0];
+      for (let i = 0; i < this.source.length; i++) {
+        if (this.source[i] === "\n") {
+          lineStarts.push(i + 1);
+        }
+      }
+      this.lineStarts = lineStarts;
+    }
+    return this.lineStarts;
+  }
+
+  /**
+   * Update the text and the old tree for one edit
+   */
+  private applyEdit(edit: TextEdit): void {
+    const startIndex = this.offsetAt(edit.start);
+    const oldEndIndex = Math.max(startIndex, this.offsetAt(edit.end));
+    // Positions of the clamped indices, so that the tree gets consistent edits
+    const startPosition = this.positionAt(startIndex);
+    const oldEndPosition = this.positionAt(oldEndIndex);
+
+    const newEndIndex = startIndex + edit.text.length;
+    this.trackEditedSpan(startIndex, oldEndIndex, newEndIndex);
+
+    this.source =
+      this.source.slice(0, startIndex) + edit.text + this.source.slice(oldEndIndex);
+    this.lineStarts = undefined;
+    this.tree.edit({
+      startIndex,
+      oldEndIndex,
+      newEndIndex,
+      startPosition,
+      oldEndPosition,
+      newEndPosition: endOfInsertion(startPosition, edit.text),
+    });
+  }
+
+  /**
+   * Record the span inserted by an edit, moving the spans of earlier edits
+   * to the text after this edit
+   */
+  private trackEditedSpan(startIndex: number, oldEndIndex: number, newEndIndex: number): void {
+    const delta = newEndIndex - oldEndIndex;
+    let span: [number, number] = [startIndex, newEndIndex];
+    const spans: Array<[number, number]> = [];
+    for (const [start, end] of this.editedSpans) {
+      if (end < startIndex) {
+        spans.push([start, end]);
+      } else if (start > oldEndIndex) {
+        spans.push([start + delta, end + delta]);
+      } else {
+        // Overlaps the replaced text: merge with the new span
+        span = [Math.min(start, span[0]), Math.max(end + delta, span[1])];
+      }
+    }
+    spans.push(span);
+    this.editedSpans = spans;
+  }
+
+  /**
+   * Re-parse the edited tree and build the new AST
+   * @returns The ranges tree-sitter reports as changed, merged with the edited
+   *   text (tree-sitter leaves out tokens whose text changed but not their type)
+   */
+  private reparse(): ChangedRange[] {
+    const oldTree = this.tree;
+    this.tree = this.backend.parse(this.source, oldTree);
+    this.result = createParseResult(this.tree, this.source, this.includeTokens, this.backend);
+
+    const spans = [
+      ...this.editedSpans,
+      ...oldTree
+        .getChangedRanges(this.tree)
+        .map((range): [number, number] => [range.startIndex, range.endIndex]),
+    ].sort((a, b) => a[0] - b[0]);
+    this.editedSpans = [];
+
+    const merged: Array<[number, number]> = [];
+    for (const [start, end] of spans) {
+      const last = merged[merged.length - 1];
+      if (last && start <= last[1]) {
+        last[1] = Math.max(last[1], end);
+      } else {
+        merged.push([start, end]);
+      }
+    }
+    return merged.map(([startIndex, endIndex]) => ({
+      range: { start: this.positionAt(startIndex), end: this.positionAt(endIndex) },
+      startIndex,
+      endIndex,
+    }));
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * Documentation HTML
+ * Formats the HTML of `Documentation(info=..., revisions=...)` annotations
+ * with Prettier's HTML printer, through the printer's `embed` hook
+ * (modelicaDocumentation: "prettier")
+ */
+
+import { doc } from "prettier";
+import type { AstPath, Doc, Options, ParserOptions, Printer } from "prettier";
+import type { ASTNode } from "./parser.js";
+
+const { utils } = doc;
+
+/**
+ * Nodes between an element modification and the string it is bound to
+ */
+const STRING_WRAPPER_TYPES = new Set([
+  "modification",
+  "expression",
+  "simple_expression",
+  "primary_expression",
+  "literal_expression",
+  "string_literal_expression",
+]);
+
+/**
+ * Check if the current node is an HTML string of an annotation, such as the
+ * `info` and `revisions` of Documentation, bound to a modification on its own
+ * (and not part of a larger expression)
+ */
+export function isDocumentationString(path: AstPath<ASTNode>): boolean {
+  const { node } = path;
+  if (node.type !== "STRING" || !node.text?.includes("<html>")) {
+    return false;
+  }
+  const ancestors: ASTNode[] = [];
+  for (let depth = 0; path.getParentNode(depth); depth++) {
+    ancestors.push(path.getParentNode(depth)!);
+  }
+
+  let i = 0;
+  while (i < ancestors.length && STRING_WRAPPER_TYPES.has(ancestors[i].type)) {
+    if (ancestors[i].children.length !== 1) {
+      return false;
+    }
+    i++;
+  }
+  return (
+    ancestors[i]?.type === "element_modification" &&
+    ancestors.some((ancestor) => ancestor.type === "annotation_clause")
+  );
+}
+
+/**
+ * Normalize HTML for comparisons: without whitespace, and without the `/`
+ * Prettier adds to void elements (`<br>` becomes `<br />`)
+ */
+export function normalizeHtml(html: string): string {
+  return html.replace(/\s+/g, "").replace(/\/>/g, ">");
+}
+
+/**
+ * Contents of the `<pre>` elements of an HTML text
+ */
+function getPreformattedBlocks(html: string): string[] {
+  return [...html.matchAll(/<pre\b[^>]*>([\s\S]*?)<\/pre\s*>/gi)].map((match) => match[1]);
+}
+
+/**
+ * Format the HTML of a Modelica string literal with Prettier's HTML printer.
+ * The `\"` escapes are removed before formatting and added back after.
+ * @returns The formatted string literal, or undefined to keep the string as
+ *   written: if it uses other escape sequences than `\"`, is
+ *   not valid HTML, or if Prettier would change more than the layout (e.g.
+ *   add quotes or end tags) or the contents of a `<pre>` element
+ */
+async function formatDocumentationString(
+  literal: string,
+  textToDoc: (text: string, options: Options) => Promise<Doc>,
+  options: ParserOptions<ASTNode>,
+): Promise<string | undefined> {
+  const content = literal.slice(1, -1);
+  if (/\\[^"]/.test(content)) {
+    return undefined;
+  }
+  const html = content.replace(/\\"/g, '"');
+
+  let formatted: string;
+  try {
+    const htmlDoc = await textToDoc(html, { parser: "html" });
+    formatted = doc.printer.printDocToString(htmlDoc, options).formatted.replace(/\n+$/, "");
+  } catch {
+    return undefined;
+  }
+
+  const preBlocks = getPreformattedBlocks(html);
+  const formattedPreBlocks = getPreformattedBlocks(formatted);
+  if (
+    normalizeHtml(formatted) !== normalizeHtml(html) ||
+    preBlocks.length !== formattedPreBlocks.length ||
+    preBlocks.some((block, i) => block !== formattedPreBlocks[i])
+  ) {
+    return undefined;
+  }
+  return `"${formatted.replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Embed hook: with modelicaDocumentation "prettier", documentation strings
+ * are printed as formatted HTML, or as written if Prettier can't format them
+ * safely
+ */
+export const embedDocumentation: NonNullable<Printer<ASTNode>["embed"]> = (path, options) => {
+  const node = (path as AstPath<ASTNode>).node;
+  const { modelicaDocumentation = "prettier" } = options as { modelicaDocumentation?: string };
+  if (modelicaDocumentation !== "prettier" || !isDocumentationString(path as AstPath<ASTNode>)) {
+    return null;
+  }
+  return async (textToDoc, _print, _path, options) => {
+    const text = node.text ?? "";
+    const formatted = await formatDocumentationString(
+      text,
+      textToDoc,
+      options as ParserOptions<ASTNode>,
+    );
+    return utils.replaceEndOfLine(formatted ?? text);
+  };
+};
@@ -0,0 +1,167 @@
+/**
+ * Syntax tree dumps
+ * Renders the ASTNode tree the printer works on as an S-expression (in the
+ * style of `tree-sitter parse`) or as JSON, for debugging
+ */
+
+import type { ASTNode, Range, Token } from "./parser.js";
+
+/**
+ * Options for dumpSexp and dumpJson
+ */
+export interface DumpOptions {
+  /** Also include anonymous tokens (keywords, operators, punctuation) */
+  all?: boolean;
+  /** Prefix nodes with the name of their field in the parent (e.g. `identifier:`) */
+  fields?: boolean;
+  /** Highlight ERROR and MISSING nodes with ANSI colors (S-expression only) */
+  color?: boolean;
+}
+
+/**
+ * A node or token of a JSON dump
+ */
+export interface DumpNode {
+  type: string;
+  /** False for anonymous tokens */
+  named: boolean;
+  fieldName?: string;
+  range: Range;
+  startIndex: number;
+  endIndex: number;
+  /** Source text, for nodes dumped without children */
+  text?: string;
+  isError?: true;
+  isMissing?: true;
+  children?: DumpNode[];
+}
+
+type DumpItem = { node: ASTNode } | { token: Token };
+
+/**
+ * Children of a node to dump, in source order. Missing tokens are always
+ * included, since they explain how the parser recovered from an error.
+ */
+function dumpItems(node: ASTNode, all: boolean): DumpItem[] {
+  const children = node.children;
+  const tokens = (node.tokens ?? []).filter((token) => all || token.isMissing);
+  const items: DumpItem[] = [];
+  let t = 0;
+  for (const child of children) {
+    // A zero-width token at the start of a node was inserted before it
+    while (
+      t < tokens.length &&
+      (tokens[t].startIndex < child.startIndex ||
+        (tokens[t].startIndex === child.startIndex && tokens[t].endIndex === child.startIndex))
+    ) {
+      items.push({ token: tokens[t++] });
+    }
+    items.push({ node: child });
+  }
+  while (t < tokens.length) {
+    items.push({ token: tokens[t++] });
+  }
+  return items;
+}
+
+/**
+ * Format a range like `tree-sitter parse`: `[row, column] - [row, column]` (0-based)
+ */
+function formatRange({ start, end }: Range): string {
+  return `[${start.row}, ${start.column}] - [${end.row}, ${end.column}]`;
+}
+
+/**
+ * Quote a text for the S-expression, shortened to its first line
+ */
+function quoteText(text: string): string {
+  const line = text.split("\n")[0];
+  return JSON.stringify(line.length > 60 || line !== text ? `${line.slice(0, 60)}...` : line);
+}
+
+/**
+ * Render the tree as an indented S-expression, one node per line. Nodes
+ * without children show their text:
+ *
+ * ```
+ * (declaration [2, 7] - [2, 8]
+ *   identifier: (IDENT [2, 7] - [2, 8] "x"))
+ * ```
+ */
+export function dumpSexp(root: ASTNode, options: DumpOptions = {}): string {
+  const { all = false, fields = false, color = false } = options;
+  const highlight = (text: string) => (color ? `\x1b[1;31m${text}\x1b[0m` : text);
+  const lines: string[] = [];
+
+  const visit = (item: DumpItem, depth: number) => {
+    const indent = "  ".repeat(depth);
+    const fieldName = "node" in item ? item.node.fieldName : item.token.fieldName;
+    const field = fields && fieldName ? `${fieldName}: ` : "";
+
+    if ("token" in item) {
+      const { token } = item;
+      const label = token.isMissing
+        ? highlight(`(MISSING ${JSON.stringify(token.type)}`) + ` ${formatRange(token.range)})`
+        : `${JSON.stringify(token.type)} ${formatRange(token.range)}`;
+      lines.push(`${indent}${field}${label}`);
+      return;
+    }
+
+    const { node } = item;
+    const items = dumpItems(node, all);
+    let label = `(${node.type}`;
+    if (node.isMissing) {
+      label = `(MISSING ${node.type}`;
+    }
+    if (node.isError || node.isMissing) {
+      label = highlight(label);
+    }
+    const text = items.length === 0 && node.text ? ` ${quoteText(node.text)}` : "";
+    lines.push(`${indent}${field}${label} ${formatRange(node.range)}${text}`);
+    items.forEach((child) => visit(child, depth + 1));
+    lines[lines.length - 1] += ")";
+  };
+
+  visit({ node: root }, 0);
+  return lines.join("\n");
+}
+
+/**
+ * Convert the tree to plain objects for JSON output
+ */
+export function dumpJson(root: ASTNode, options: DumpOptions = {}): DumpNode {
+  const { all = false, fields = false } = options;
+
+  const convert = (item: DumpItem): DumpNode => {
+    if ("token" in item) {
+      const { token } = item;
+      return {
+        type: token.type,
+        named: false,
+        ...(fields && token.fieldName ? { fieldName: token.fieldName } : {}),
+        range: token.range,
+        startIndex: token.startIndex,
+        endIndex: token.endIndex,
+        text: token.text,
+        ...(token.isMissing ? { isMissing: true as const } : {}),
+      };
+    }
+
+    const { node } = item;
+    const items = dumpItems(node, all);
+    return {
+      type: node.type,
+      named: true,
+      ...(fields && node.fieldName ? { fieldName: node.fieldName } : {}),
+      range: node.range,
+      startIndex: node.startIndex,
+      endIndex: node.endIndex,
+      ...(items.length === 0 ? { text: node.text ?? "" } : {}),
+      ...(node.isError ? { isError: true as const } : {}),
+      ...(node.isMissing ? { isMissing: true as const } : {}),
+      ...(items.length > 0 ? { children: items.map(convert) } : {}),
+    };
+  };
+
+  return convert({ node: root });
+}
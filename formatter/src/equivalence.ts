@@ -0,0 +1,251 @@
+/**
+ * AST equivalence check
+ * Verifies that formatting only changed layout: the formatted code must parse
+ * to the same tree, with the same tokens, as the original code
+ */
+
+import type { SyntaxNode } from "./backend.js";
+import { normalizeHtml } from "./documentation.js";
+import { parse } from "./parser.js";
+import type { Position } from "./parser.js";
+
+/**
+ * Node types of comments, compared separately since formatting may move them
+ */
+const COMMENT_TYPES = new Set(["comment", "BLOCK_COMMENT"]);
+
+/**
+ * A named node or a token, in the order they appear in the source
+ */
+interface TreeItem {
+  kind: "node" | "token";
+  /** Node type, or token text without whitespace */
+  value: string;
+  position: Position;
+}
+
+/**
+ * A comment with its text stripped of whitespace. Line comments on their own
+ * consecutive lines are merged into one item, since wrapping may split them.
+ */
+interface CommentItem {
+  value: string;
+  position: Position;
+  /** Last row of a run of line comments on their own lines */
+  lineCommentRow?: number;
+}
+
+/**
+ * One side of the first difference between two trees
+ */
+export interface DivergencePoint {
+  /** Position in the respective source (0-based row and column) */
+  position: Position;
+  /** Description of the node or token found there */
+  description: string;
+}
+
+/**
+ * Result of checkAstEquivalence
+ */
+export interface EquivalenceResult {
+  equivalent: boolean;
+  /** Where the trees first diverge (only set if they are not equivalent) */
+  original?: DivergencePoint;
+  formatted?: DivergencePoint;
+  /** Human-readable description of the first divergence */
+  message?: string;
+}
+
+/**
+ * Check if a token is an HTML string inside an annotation, whose layout the
+ * formatter may change (see modelicaDocumentation)
+ */
+function isAnnotationHtml(node: SyntaxNode): boolean {
+  if (node.type !== "STRING" || !node.text.includes("<html>")) {
+    return false;
+  }
+  for (let parent = node.parent; parent; parent = parent.parent) {
+    if (parent.type === "annotation_clause") {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Flatten a tree into its named nodes and tokens in source order
+ */
+function flatten(
+  node: SyntaxNode,
+  items: TreeItem[],
+  comments: CommentItem[],
+  lines: string[],
+): void {
+  if (COMMENT_TYPES.has(node.type)) {
+    const value = node.text.replace(/\s+/g, "");
+    const { row, column } = node.startPosition;
+    const ownLine = node.type === "comment" && lines[row].slice(0, column).trim() === "";
+    const previous = comments[comments.length - 1];
+    if (ownLine && previous?.lineCommentRow === row - 1) {
+      previous.value += value.replace(/^\/\//, "");
+      previous.lineCommentRow = row;
+    } else {
+      comments.push({ value, position: node.startPosition, lineCommentRow: ownLine ? row : undefined });
+    }
+    return;
+  }
+  if (node.isNamed) {
+    items.push({ kind: "node", value: node.type, position: node.startPosition });
+  }
+  if (node.type === "description_string") {
+    // Description strings may be split into, or joined from, a concatenation
+    // of literals: compare the concatenated text
+    let text = "";
+    for (const child of node.children) {
+      if (child && COMMENT_TYPES.has(child.type)) {
+        flatten(child, items, comments, lines);
+      } else if (child?.type === "STRING") {
+        text += child.text.slice(1, -1);
+      }
+    }
+    items.push({ kind: "token", value: `"${text}"`, position: node.startPosition });
+    return;
+  }
+  if (node.childCount === 0) {
+    // HTML in annotations is reflowed, and may gain the `/` of void elements
+    items.push({
+      kind: "token",
+      value: isAnnotationHtml(node) ? normalizeHtml(node.text) : node.text,
+      position: node.startPosition,
+    });
+    return;
+  }
+  for (const child of node.children) {
+    if (child) {
+      flatten(child, items, comments, lines);
+    }
+  }
+}
+
+/**
+ * Describe a tree item for messages
+ */
+function describe(item: TreeItem | CommentItem | undefined): string {
+  if (!item) {
+    return "end of file";
+  }
+  const value = item.value.length > 40 ? `${item.value.slice(0, 40)}...` : item.value;
+  if ("kind" in item && item.kind === "node") {
+    return `${value} node`;
+  }
+  return "kind" in item ? `"${value}"` : `comment "${value}"`;
+}
+
+/**
+ * Format a 0-based position as `line:column` (1-based)
+ */
+function formatPosition(position: Position): string {
+  return `${position.row + 1}:${position.column + 1}`;
+}
+
+/**
+ * Check that formatted code is equivalent to the original code.
+ *
+ * Both sources are parsed and their named-node trees and token texts compared
+ * exactly, except where the formatter may change a token: HTML strings in
+ * annotations are compared without whitespace (they are reflowed), and
+ * description strings by their concatenated text (they may be split into
+ * several literals). Comments are compared without whitespace, as a whole,
+ * independent of where they were moved to, and runs of line comments by their
+ * concatenated text, since long ones may be wrapped.
+ *
+ * @param originalSource The code before formatting
+ * @param formattedSource The code after formatting
+ * @returns The result, describing the first divergence if any
+ */
+export function checkAstEquivalence(
+  originalSource: string,
+  formattedSource: string,
+): EquivalenceResult {
+  const originalItems: TreeItem[] = [];
+  const originalComments: CommentItem[] = [];
+  // The roots keep the trees alive (see ASTNode._syntaxNode)
+  const originalRoot = parse(originalSource).rootNode;
+  const formattedItems: TreeItem[] = [];
+  const formattedComments: CommentItem[] = [];
+  const formattedRoot = parse(formattedSource).rootNode;
+  const originalTree = originalRoot._syntaxNode;
+  const formattedTree = formattedRoot._syntaxNode;
+  if (!originalTree || !formattedTree) {
+    throw new Error("Parser did not return a syntax tree");
+  }
+  flatten(originalTree, originalItems, originalComments, originalSource.split("\n"));
+  flatten(formattedTree, formattedItems, formattedComments, formattedSource.split("\n"));
+
+  const length = Math.max(originalItems.length, formattedItems.length);
+  for (let i = 0; i < length; i++) {
+    const original = originalItems[i];
+    const formatted = formattedItems[i];
+    if (
+      original &&
+      formatted &&
+      original.kind === formatted.kind &&
+      original.value === formatted.value
+    ) {
+      continue;
+    }
+    return divergence(original, formatted, originalItems, formattedItems);
+  }
+
+  // Every original comment must still be there, wherever it was moved
+  const remaining = new Map<string, number>();
+  for (const comment of formattedComments) {
+    remaining.set(comment.value, (remaining.get(comment.value) ?? 0) + 1);
+  }
+  for (const comment of originalComments) {
+    const count = remaining.get(comment.value) ?? 0;
+    if (count === 0) {
+      return {
+        equivalent: false,
+        original: { position: comment.position, description: describe(comment) },
+        message: `${describe(comment)} at ${formatPosition(comment.position)} is missing from the formatted code`,
+      };
+    }
+    remaining.set(comment.value, count - 1);
+  }
+  const extra = formattedComments.find((comment) => (remaining.get(comment.value) ?? 0) > 0);
+  if (extra) {
+    return {
+      equivalent: false,
+      formatted: { position: extra.position, description: describe(extra) },
+      message: `Formatted code has an extra ${describe(extra)} at ${formatPosition(extra.position)}`,
+    };
+  }
+
+  return { equivalent: true };
+}
+
+/**
+ * Build the result for the first differing items
+ */
+function divergence(
+  original: TreeItem | undefined,
+  formatted: TreeItem | undefined,
+  originalItems: TreeItem[],
+  formattedItems: TreeItem[],
+): EquivalenceResult {
+  // At the end of one source, point to where the other one ended
+  const originalPosition =
+    original?.position ?? originalItems[originalItems.length - 1]?.position ?? { row: 0, column: 0 };
+  const formattedPosition =
+    formatted?.position ?? formattedItems[formattedItems.length - 1]?.position ?? { row: 0, column: 0 };
+  return {
+    equivalent: false,
+    original: { position: originalPosition, description: describe(original) },
+    formatted: { position: formattedPosition, description: describe(formatted) },
+    message:
+      `Original has ${describe(original)} at ${formatPosition(originalPosition)}, ` +
+      `formatted code has ${describe(formatted)} at ${formatPosition(formattedPosition)}`,
+  };
+}
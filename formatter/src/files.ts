@@ -0,0 +1,345 @@
+/**
+ * Input file discovery for the CLI
+ * Expands file paths, directories and glob patterns into Modelica files
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+
+/**
+ * Directories that are never descended into when walking a tree
+ */
+const SKIPPED_DIRECTORIES = new Set([".git", "node_modules"]);
+
+/**
+ * Name of the files listing paths to leave out when walking directories
+ */
+export const IGNORE_FILE_NAME = ".modelicaformatignore";
+
+/**
+ * A pattern of an ignore file
+ */
+interface IgnoreRule {
+  /** Directory of the ignore file, patterns match paths relative to it */
+  base: string;
+  regex: RegExp;
+  /** `!pattern`: include again what an earlier pattern excluded */
+  negated: boolean;
+  /** `pattern/`: only match directories */
+  directoryOnly: boolean;
+}
+
+/**
+ * Result of expanding the CLI inputs
+ */
+export interface ExpandedInputs {
+  /** Absolute paths of the files to format, in input order, without duplicates */
+  files: string[];
+  /** Inputs that did not resolve to any file */
+  unmatched: string[];
+}
+
+/**
+ * Check if a path contains glob syntax (*, ?, [...] or {...})
+ */
+export function isGlobPattern(pattern: string): boolean {
+  return /[*?[\]{}]/.test(pattern);
+}
+
+/**
+ * Convert a glob pattern to a regular expression matching POSIX-style paths
+ *
+ * Supported syntax:
+ * - `*` matches any characters except `/`
+ * - `**` matches any number of path segments (including none)
+ * - `?` matches a single character except `/`
+ * - `[abc]`, `[a-z]`, `[!abc]` character classes
+ * - `{a,b}` alternatives
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = "";
+  let braceDepth = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === "*") {
+      if (pattern[i + 1] === "*") {
+        // `**/` matches zero or more directories, a trailing `**` matches everything
+        if (pattern[i + 2] === "/") {
+          source += "(?:.*/)?";
+          i += 2;
+        } else {
+          source += ".*";
+          i += 1;
+        }
+      } else {
+        source += "[^/]*";
+      }
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "[") {
+      const close = pattern.indexOf("]", i + 1);
+      if (close === -1) {
+        source += "\\[";
+      } else {
+        let content = pattern.slice(i + 1, close);
+        if (content.startsWith("!")) {
+          content = "^" + content.slice(1);
+        }
+        source += `[${content.replace(/\\/g, "\\\\")}]`;
+        i = close;
+      }
+    } else if (char === "{") {
+      braceDepth++;
+      source += "(?:";
+    } else if (char === "}" && braceDepth > 0) {
+      braceDepth--;
+      source += ")";
+    } else if (char === "," && braceDepth > 0) {
+      source += "|";
+    } else {
+      source += char.replace(/[.+^$()|\\]/g, "\\$&");
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Convert a path to forward-slash form so it can be matched against globs
+ */
+function toPosix(filePath: string): string {
+  return filePath.split(path.sep).join("/");
+}
+
+/**
+ * Parse an ignore file, which uses the gitignore syntax: one glob pattern per
+ * line, `#` comments, `!` to negate, a trailing `/` to only match
+ * directories, and patterns without a `/` (other than a trailing one) matching
+ * at any depth
+ * @param content Text of the ignore file
+ * @param base Directory containing the ignore file
+ */
+export function parseIgnoreFile(content: string, base: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  for (const rawLine of content.split(/\r?\n/)) {
+    let line = rawLine.replace(/(?<!\\)\s+$/, "");
+    if (line === "" || line.startsWith("#")) {
+      continue;
+    }
+    const negated = line.startsWith("!");
+    if (negated) {
+      line = line.slice(1);
+    } else if (line.startsWith("\\#") || line.startsWith("\\!")) {
+      line = line.slice(1);
+    }
+    const directoryOnly = line.endsWith("/");
+    if (directoryOnly) {
+      line = line.slice(0, -1);
+    }
+    const anchored = line.includes("/");
+    line = line.replace(/^\//, "");
+    if (line === "") {
+      continue;
+    }
+    rules.push({
+      base,
+      regex: globToRegExp(anchored ? line : `**/${line}`),
+      negated,
+      directoryOnly,
+    });
+  }
+  return rules;
+}
+
+/**
+ * Read the ignore file of a directory, if any
+ */
+function readIgnoreFile(directory: string): IgnoreRule[] {
+  const ignoreFile = path.join(directory, IGNORE_FILE_NAME);
+  try {
+    return parseIgnoreFile(fs.readFileSync(ignoreFile, "utf8"), directory);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Check if a path is excluded by the ignore rules (the last matching rule wins)
+ */
+function isIgnored(rules: IgnoreRule[], fullPath: string, isDirectory: boolean): boolean {
+  let ignored = false;
+  for (const rule of rules) {
+    if (rule.directoryOnly && !isDirectory) {
+      continue;
+    }
+    const relativePath = path.relative(rule.base, fullPath);
+    if (relativePath.startsWith("..") || path.isAbsolute(relativePath)) {
+      continue;
+    }
+    if (rule.regex.test(toPosix(relativePath))) {
+      ignored = !rule.negated;
+    }
+  }
+  return ignored;
+}
+
+/**
+ * Ignore rules that apply to a directory before its own ignore file: those
+ * of its parents, up to the working directory
+ */
+function inheritedIgnoreRules(directory: string, cwd: string): IgnoreRule[] {
+  const relativePath = path.relative(cwd, directory);
+  if (relativePath === "" || relativePath.startsWith("..") || path.isAbsolute(relativePath)) {
+    return [];
+  }
+  const parents: string[] = [];
+  for (let parent = path.dirname(directory); ; parent = path.dirname(parent)) {
+    parents.unshift(parent);
+    if (parent === cwd || parent === path.dirname(parent)) {
+      break;
+    }
+  }
+  return parents.flatMap(readIgnoreFile);
+}
+
+/**
+ * Check if a directory below the working directory is excluded by the ignore
+ * files above it, itself or through one of its parents: as with gitignore,
+ * nothing below an excluded directory is included again
+ */
+function isIgnoredDirectory(directory: string, cwd: string): boolean {
+  const relativePath = path.relative(cwd, directory);
+  if (relativePath === "" || relativePath.startsWith("..") || path.isAbsolute(relativePath)) {
+    return false;
+  }
+  let current = cwd;
+  let rules = readIgnoreFile(cwd);
+  for (const segment of relativePath.split(path.sep)) {
+    current = path.join(current, segment);
+    if (isIgnored(rules, current, true)) {
+      return true;
+    }
+    rules = [...rules, ...readIgnoreFile(current)];
+  }
+  return false;
+}
+
+/**
+ * Recursively collect all files below a directory, sorted for stable output.
+ * Paths excluded by `.modelicaformatignore` files are skipped; an excluded
+ * directory is not descended into, as with gitignore.
+ */
+function walkDirectory(
+  directory: string,
+  filter: (filePath: string) => boolean,
+  parentRules: IgnoreRule[] = [],
+): string[] {
+  const results: string[] = [];
+  let entries: fs.Dirent[];
+  try {
+    entries = fs.readdirSync(directory, { withFileTypes: true });
+  } catch {
+    return results;
+  }
+
+  entries.sort((a, b) => a.name.localeCompare(b.name));
+  const rules = [...parentRules, ...readIgnoreFile(directory)];
+
+  for (const entry of entries) {
+    const fullPath = path.join(directory, entry.name);
+    if (entry.isDirectory()) {
+      if (!SKIPPED_DIRECTORIES.has(entry.name) && !isIgnored(rules, fullPath, true)) {
+        results.push(...walkDirectory(fullPath, filter, rules));
+      }
+    } else if (entry.isFile() && filter(fullPath) && !isIgnored(rules, fullPath, false)) {
+      results.push(fullPath);
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Split a glob pattern into the static directory prefix and the remaining pattern
+ * e.g. `Buildings/Fluid/Chiller*.mo` -> `Buildings/Fluid` and `Chiller*.mo`
+ */
+function splitGlobBase(pattern: string): { base: string; rest: string } {
+  const segments = toPosix(pattern).split("/");
+  const baseSegments: string[] = [];
+  while (segments.length > 1 && !isGlobPattern(segments[0])) {
+    baseSegments.push(segments.shift()!);
+  }
+  return {
+    base: baseSegments.join("/") || ".",
+    rest: segments.join("/"),
+  };
+}
+
+/**
+ * Check if a path is a Modelica source file
+ */
+export function isModelicaFile(filePath: string): boolean {
+  return filePath.endsWith(".mo");
+}
+
+/**
+ * Expand CLI inputs into the list of files to format
+ *
+ * - Plain file paths are kept as-is (even without a .mo extension)
+ * - Directories are walked recursively for .mo files
+ * - Glob patterns are matched relative to their static directory prefix
+ * - Walks skip the paths listed in `.modelicaformatignore` files (of the
+ *   walked directories and of their parents up to `cwd`); nothing is found
+ *   in a directory inside an excluded one
+ *
+ * @param inputs File paths, directories or glob patterns
+ * @param cwd Directory relative inputs are resolved against
+ */
+export function expandInputs(
+  inputs: string[],
+  cwd: string = process.cwd(),
+): ExpandedInputs {
+  const files: string[] = [];
+  const seen = new Set<string>();
+  const unmatched: string[] = [];
+
+  const add = (filePath: string) => {
+    if (!seen.has(filePath)) {
+      seen.add(filePath);
+      files.push(filePath);
+    }
+  };
+
+  for (const input of inputs) {
+    const resolved = path.resolve(cwd, input);
+    let matches: string[] = [];
+
+    if (fs.existsSync(resolved)) {
+      if (!fs.statSync(resolved).isDirectory()) {
+        matches = [resolved];
+      } else if (!isIgnoredDirectory(resolved, cwd)) {
+        matches = walkDirectory(resolved, isModelicaFile, inheritedIgnoreRules(resolved, cwd));
+      }
+    } else if (isGlobPattern(input)) {
+      const { base, rest } = splitGlobBase(input);
+      const baseDir = path.resolve(cwd, base);
+      const regex = globToRegExp(rest);
+      if (!isIgnoredDirectory(baseDir, cwd)) {
+        matches = walkDirectory(
+          baseDir,
+          (filePath) => regex.test(toPosix(path.relative(baseDir, filePath))),
+          inheritedIgnoreRules(baseDir, cwd),
+        );
+      }
+    }
+
+    if (matches.length === 0) {
+      unmatched.push(input);
+    }
+    matches.forEach(add);
+  }
+
+  return { files, unmatched };
+}
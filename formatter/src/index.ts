@@ -1,6 +1,6 @@
 /**
  * Prettier Plugin for Modelica
- * Uses tree-sitter CLI for parsing
+ * Uses tree-sitter (native bindings or WebAssembly) for parsing
  */
 
 import type {
@@ -10,8 +10,19 @@ import type {
   SupportLanguage,
   SupportOption,
 } from "prettier";
-import { parse as parseModelica, ASTNode } from "./parser.js";
-import { printModelica } from "./printer.js";
+import { initParser, parse as parseModelica, ASTNode, ParseResult } from "./parser.js";
+import { ModelicaSyntaxError } from "./diagnostics.js";
+import { printModelica, ModelicaOptions } from "./printer.js";
+import { embedDocumentation } from "./documentation.js";
+import {
+  canAttachComment,
+  extractComments,
+  getCommentChildNodes,
+  getVisitorKeys,
+  handleComments,
+  printComment,
+  willPrintOwnComments,
+} from "./comments.js";
 
 // Language definition
 const languages: SupportLanguage[] = [
@@ -23,21 +34,43 @@ const languages: SupportLanguage[] = [
   },
 ];
 
+/**
+ * Build the error reported for a source with syntax errors, listing the
+ * location of every error
+ */
+function createSyntaxError(result: ParseResult): ModelicaSyntaxError {
+  const locations = result.diagnostics.map(({ range, message }) => {
+    return `  ${range.start.row + 1}:${range.start.column + 1} ${message}`;
+  });
+  return new ModelicaSyntaxError(
+    `Syntax errors found (${result.errorCount} errors, ${result.missingCount} missing nodes):\n` +
+      locations.join("\n"),
+    result.diagnostics,
+  );
+}
+
 // Parser definition
 const parsers: Record<string, Parser> = {
   modelica: {
-    parse(text: string): ASTNode {
-      const result = parseModelica(text);
-      return result.rootNode;
+    async parse(text: string, options: ModelicaOptions): Promise<ASTNode> {
+      await initParser({ backend: options.modelicaParserBackend });
+      const result = parseModelica(text, { includeTokens: true });
+      // ERROR subtrees are printed verbatim in "verbatim" mode, anything
+      // else would risk corrupting the code
+      if (result.hasErrors && options.modelicaParseErrors !== "verbatim") {
+        throw createSyntaxError(result);
+      }
+      const root = result.rootNode;
+      root.fileComments = extractComments(root);
+      root.comments = [...root.fileComments];
+      return root;
     },
     astFormat: "modelica-ast",
     locStart(node: ASTNode): number {
-      // Calculate byte offset from row/column
-      // This is an approximation - proper implementation would track offsets during parsing
-      return node.range.start.row * 1000 + node.range.start.column;
+      return node.startIndex;
     },
     locEnd(node: ASTNode): number {
-      return node.range.end.row * 1000 + node.range.end.column;
+      return node.endIndex;
     },
   },
 };
@@ -46,6 +79,15 @@ const parsers: Record<string, Parser> = {
 const printers: Record<string, Printer<ASTNode>> = {
   "modelica-ast": {
     print: printModelica,
+    embed: embedDocumentation,
+    printComment,
+    canAttachComment,
+    getCommentChildNodes,
+    getVisitorKeys,
+    handleComments,
+    isBlockComment: (node: ASTNode) => node.type === "BLOCK_COMMENT",
+    // Prettier passes the options too, which the type leaves out
+    willPrintOwnComments: willPrintOwnComments as Printer<ASTNode>["willPrintOwnComments"],
   },
 };
 
@@ -54,8 +96,128 @@ const options: Record<string, SupportOption> = {
   modelicaIndentSize: {
     type: "int",
     category: "Modelica",
-    default: 2,
-    description: "Number of spaces per indentation level for Modelica code.",
+    range: { start: 0, end: Infinity, step: 1 },
+    description:
+      "Number of spaces per indentation level for Modelica code (defaults to tabWidth).",
+  },
+  modelicaMaxBlankLines: {
+    type: "int",
+    category: "Modelica",
+    default: 1,
+    range: { start: 0, end: Infinity, step: 1 },
+    description:
+      "Maximum number of blank lines kept between elements, equations, statements and class sections.",
+  },
+  // Prettier core only implements rangeStart/rangeEnd for its built-in languages
+  // (other parsers get the text back unchanged), so the plugin has its own range
+  modelicaRangeStart: {
+    type: "int",
+    category: "Modelica",
+    default: 0,
+    range: { start: 0, end: Infinity, step: 1 },
+    description:
+      "Format only the elements, equations or statements overlapping the range starting at this offset.",
+  },
+  modelicaRangeEnd: {
+    type: "int",
+    category: "Modelica",
+    default: Infinity,
+    range: { start: 0, end: Infinity, step: 1 },
+    description:
+      "Format only the elements, equations or statements overlapping the range ending at this offset (exclusive).",
+  },
+  modelicaParseErrors: {
+    type: "choice",
+    category: "Modelica",
+    default: "error",
+    description: "How to handle code with syntax errors.",
+    choices: [
+      {
+        value: "error",
+        description: "Fail, listing the location of every syntax error.",
+      },
+      {
+        value: "verbatim",
+        description: "Keep the text of each erroneous part as is and format the rest.",
+      },
+    ],
+  },
+  modelicaParserBackend: {
+    type: "choice",
+    category: "Modelica",
+    default: "auto",
+    description: "Tree-sitter runtime used to parse Modelica code.",
+    choices: [
+      {
+        value: "auto",
+        description:
+          "MODELICA_PARSER_BACKEND if set, else the native bindings if they load, else WebAssembly.",
+      },
+      {
+        value: "native",
+        description: "Native Node.js bindings (tree-sitter and tree-sitter-modelica).",
+      },
+      {
+        value: "wasm",
+        description: "web-tree-sitter with grammars/modelica.wasm.",
+      },
+    ],
+  },
+  modelicaDocumentation: {
+    type: "choice",
+    category: "Modelica",
+    default: "prettier",
+    description: "How HTML documentation strings in annotations are printed.",
+    choices: [
+      {
+        value: "prettier",
+        description:
+          "Format with Prettier's HTML printer (kept as written if it is not valid HTML).",
+      },
+      {
+        value: "wrap",
+        description: "Only wrap lines longer than printWidth.",
+      },
+      {
+        value: "preserve",
+        description: "Keep as written.",
+      },
+    ],
+  },
+  modelicaDescriptionStrings: {
+    type: "choice",
+    category: "Modelica",
+    default: "preserve",
+    description: "How description strings longer than the line are printed.",
+    choices: [
+      {
+        value: "preserve",
+        description: "Keep the string literals as written.",
+      },
+      {
+        value: "wrap",
+        description:
+          'Split over-long strings at word boundaries into "+"-joined literals on continuation lines.',
+      },
+      {
+        value: "join",
+        description: "Like wrap, and join concatenated literals into one when they fit on the line.",
+      },
+    ],
+  },
+  modelicaReflowComments: {
+    type: "boolean",
+    category: "Modelica",
+    default: false,
+    description:
+      "Wrap line comments longer than printWidth and re-indent the lines of block comments.",
+  },
+  modelicaStrict: {
+    type: "boolean",
+    category: "Modelica",
+    default: false,
+    description:
+      "Fail on node types the printer has no rule for, listing them (they are printed as written otherwise).",
   },
 };
 
@@ -70,4 +232,37 @@ const plugin: Plugin<ASTNode> = {
 };
 
 export default plugin;
-export { languages, parsers, printers, options };
\ No newline at end of file
+export { languages, parsers, printers, options };
+export {
+  parse,
+  initParser,
+  getParserBackend,
+  getParserVersion,
+  walk,
+  findNodesByType,
+  findNodeAtPosition,
+} from "./parser.js";
+export type {
+  ASTNode,
+  InitParserOptions,
+  ParseOptions,
+  ParseResult,
+  ParserBackend,
+  Position,
+  Range,
+  Token,
+} from "./parser.js";
+export { ModelicaDocument } from "./document.js";
+export { runQuery, compileQuery, QueryError } from "./query.js";
+export type { QueryCapture, CompiledQuery } from "./query.js";
+export { dumpSexp, dumpJson } from "./dump.js";
+export { getVersionInfo, formatVersionInfo } from "./version.js";
+export type { VersionInfo } from "./version.js";
+export type { DumpNode, DumpOptions } from "./dump.js";
+export type { ChangedRange, TextEdit } from "./document.js";
+export { checkAstEquivalence } from "./equivalence.js";
+export { ModelicaSyntaxError, formatDiagnostic } from "./diagnostics.js";
+export type { Diagnostic } from "./diagnostics.js";
+export { UnhandledNodeError } from "./printer.js";
+export type { UnhandledNodeType } from "./printer.js";
+export type { DivergencePoint, EquivalenceResult } from "./equivalence.js";
@@ -1,21 +1,126 @@
 /**
  * Tree-sitter parser wrapper for Modelica
- * Uses native tree-sitter Node bindings for parsing
+ * Parses with the native tree-sitter Node bindings or with web-tree-sitter
+ * (see backend.ts)
  */
 
-import Parser from "tree-sitter";
 import * as fs from "fs";
 import * as path from "path";
-import { createRequire } from "module";
+import { loadNativeBackend, loadWasmBackend } from "./backend.js";
+import type { Backend, ParserBackend, SyntaxNode, Tree } from "./backend.js";
+import { collectDiagnostics } from "./diagnostics.js";
+import type { Diagnostic } from "./diagnostics.js";
 
-// Import the Modelica language grammar
-// The grammar is a CommonJS module, so we need createRequire in ESM context
-const require = createRequire(import.meta.url);
-const ModelicaGrammar = require("tree-sitter-modelica");
+export type { ParserBackend } from "./backend.js";
 
-// Initialize the parser with the Modelica language
-const parser = new Parser();
-parser.setLanguage(ModelicaGrammar);
+/**
+ * Options for initParser
+ */
+export interface InitParserOptions {
+  /**
+   * Backend to use. `auto` keeps the current backend, or else uses the
+   * `MODELICA_PARSER_BACKEND` environment variable, or else the native
+   * bindings when they load and WebAssembly otherwise.
+   */
+  backend?: ParserBackend | "auto";
+  /** Path of the WebAssembly grammar (default: `grammars/modelica.wasm`) */
+  wasmPath?: string;
+}
+
+/**
+ * Backend used by parse(), loaded on first use
+ */
+let currentBackend: Backend | undefined;
+let nativeBackend: Backend | undefined;
+let nativeLoadError: unknown;
+const wasmBackends = new Map<string | undefined, Promise<Backend>>();
+
+/**
+ * Load the native backend once, remembering a failure
+ */
+function getNativeBackend(): Backend {
+  if (!nativeBackend && nativeLoadError === undefined) {
+    try {
+      nativeBackend = loadNativeBackend();
+    } catch (error) {
+      nativeLoadError = error;
+    }
+  }
+  if (!nativeBackend) {
+    const reason = nativeLoadError instanceof Error ? nativeLoadError.message : String(nativeLoadError);
+    throw new Error(
+      `The native tree-sitter bindings could not be loaded (${reason.split("\n")[0]}). ` +
+        `Use the WebAssembly backend: await initParser({ backend: "wasm" }), ` +
+        `or MODELICA_PARSER_BACKEND=wasm for the CLI and Prettier.`,
+    );
+  }
+  return nativeBackend;
+}
+
+/**
+ * Select the parser backend, loading it if needed. The native backend loads
+ * synchronously on the first parse() if this was not called; the WebAssembly
+ * backend loads asynchronously, so it must be selected here first.
+ * @returns The name of the selected backend
+ */
+export async function initParser(options: InitParserOptions = {}): Promise<ParserBackend> {
+  let backend = options.backend ?? "auto";
+  if (backend === "auto" && currentBackend) {
+    return currentBackend.name;
+  }
+  if (backend === "auto") {
+    const fromEnvironment = process.env.MODELICA_PARSER_BACKEND;
+    if (fromEnvironment === "native" || fromEnvironment === "wasm") {
+      backend = fromEnvironment;
+    } else if (fromEnvironment && fromEnvironment !== "auto") {
+      throw new Error(
+        `Invalid MODELICA_PARSER_BACKEND "${fromEnvironment}" (expected native, wasm or auto)`,
+      );
+    }
+  }
+
+  if (backend === "native") {
+    currentBackend = getNativeBackend();
+  } else if (backend === "wasm") {
+    currentBackend = await getWasmBackend(options.wasmPath);
+  } else {
+    try {
+      currentBackend = getNativeBackend();
+    } catch {
+      currentBackend = await getWasmBackend(options.wasmPath);
+    }
+  }
+  return currentBackend.name;
+}
+
+/**
+ * Load the WebAssembly backend once per grammar file
+ */
+function getWasmBackend(wasmPath?: string): Promise<Backend> {
+  let backend = wasmBackends.get(wasmPath);
+  if (!backend) {
+    backend = loadWasmBackend(wasmPath);
+    wasmBackends.set(wasmPath, backend);
+    // Allow retrying after a failure
+    backend.catch(() => wasmBackends.delete(wasmPath));
+  }
+  return backend;
+}
+
+/**
+ * Backend parse() runs on
+ */
+export function getBackend(): Backend {
+  currentBackend ??= getNativeBackend();
+  return currentBackend;
+}
+
+/**
+ * Name of the backend parse() runs on, or null if none is loaded yet
+ */
+export function getParserBackend(): ParserBackend | null {
+  return currentBackend?.name ?? null;
+}
 
 /**
  * Position in source code
@@ -33,6 +138,31 @@ export interface Range {
   end: Position;
 }
 
+/**
+ * Anonymous token (keyword, operator or punctuation) from tree-sitter
+ */
+export interface Token {
+  /** Token type, which for anonymous tokens is their text (e.g. "parameter", "+", ";") */
+  type: string;
+  text: string;
+  range: Range;
+  startIndex: number;
+  endIndex: number;
+  /** Token inserted by the parser to recover from a syntax error (empty text) */
+  isMissing: boolean;
+  fieldName?: string;
+}
+
+/**
+ * Options for parse
+ */
+export interface ParseOptions {
+  /** Log the tree-sitter tree */
+  debug?: boolean;
+  /** Also collect the anonymous tokens of each node in ASTNode.tokens */
+  includeTokens?: boolean;
+}
+
 /**
  * AST Node from tree-sitter
  * This interface wraps tree-sitter's SyntaxNode to maintain compatibility
@@ -42,12 +172,32 @@ export interface ASTNode {
   type: string;
   text?: string;
   range: Range;
+  /**
+   * Offset of the node start in the source string, as reported by tree-sitter.
+   * The node bindings parse UTF-16, so this is a JavaScript string index.
+   */
+  startIndex: number;
+  /** Offset just past the end of the node in the source string */
+  endIndex: number;
   children: ASTNode[];
   isError: boolean;
   isMissing: boolean;
   fieldName?: string;
-  /** Raw tree-sitter SyntaxNode for advanced use cases (e.g., accessing anonymous children) */
-  _syntaxNode?: Parser.SyntaxNode;
+  /** Anonymous tokens directly below this node, in source order (only with `includeTokens`) */
+  tokens?: Token[];
+  /** Comments of the file (root node only, before Prettier attaches them) or attached to this node */
+  comments?: ASTNode[];
+  /**
+   * All comments of the file, in source order (root node only). Prettier
+   * takes `comments` off the root when it attaches them; this list stays.
+   */
+  fileComments?: ASTNode[];
+  /**
+   * Raw tree-sitter SyntaxNode for advanced use cases (e.g., accessing anonymous children).
+   * With the WebAssembly backend, it is only valid while a node of the same
+   * ASTNode tree is reachable: the tree is freed after that.
+   */
+  _syntaxNode?: SyntaxNode;
 }
 
 /**
@@ -58,90 +208,210 @@ export interface ParseResult {
   hasErrors: boolean;
   errorCount: number;
   missingCount: number;
+  /** One entry per syntax error, in source order */
+  diagnostics: Diagnostic[];
 }
 
 /**
- * Convert a tree-sitter SyntaxNode to our ASTNode interface
- *
- * IMPORTANT: We only include NAMED children to match the behavior of the
- * tree-sitter CLI S-expression output. The CLI doesn't output anonymous
- * nodes (like keywords 'if', 'then', 'else', punctuation ';', '=', etc.).
- * The printer was written to work with that structure.
+ * Convert a tree-sitter range to our Range interface
  */
-function convertNode(node: Parser.SyntaxNode, fieldName?: string): ASTNode {
-  const children: ASTNode[] = [];
-
-  // Only iterate through NAMED children to match CLI S-expression output
-  // Anonymous nodes (keywords, punctuation) are not included
-  for (let i = 0; i < node.namedChildCount; i++) {
-    const child = node.namedChild(i);
-    if (child) {
-      // Get the field name for this named child
-      // We need to find the actual index in all children to get the field name
-      let childFieldName: string | undefined;
-      for (let j = 0; j < node.childCount; j++) {
-        if (node.child(j)?.id === child.id) {
-          childFieldName = node.fieldNameForChild(j) || undefined;
-          break;
-        }
-      }
-      children.push(convertNode(child, childFieldName));
-    }
-  }
-
+function convertRange(node: SyntaxNode): Range {
+  // Each position read crosses into the parser (WebAssembly), so once each
+  const { startPosition, endPosition } = node;
   return {
-    type: node.type,
-    text: node.text,
-    range: {
-      start: {
-        row: node.startPosition.row,
-        column: node.startPosition.column,
-      },
-      end: {
-        row: node.endPosition.row,
-        column: node.endPosition.column,
-      },
+    start: {
+      row: startPosition.row,
+      column: startPosition.column,
+    },
+    end: {
+      row: endPosition.row,
+      column: endPosition.column,
     },
-    children,
-    isError: node.type === "ERROR",
-    isMissing: node.isMissing,
-    fieldName,
-    _syntaxNode: node,
   };
 }
 
 /**
- * Count error and missing nodes in AST
+ * State shared by the nodes of one tree. While any node of the tree is
+ * reachable, so is its context.
  */
-function countErrors(node: ASTNode): {
-  errorCount: number;
-  missingCount: number;
-} {
-  let errorCount = 0;
-  let missingCount = 0;
-
-  function traverse(n: ASTNode) {
-    if (n.isError) errorCount++;
-    if (n.isMissing) missingCount++;
-    for (const child of n.children) {
-      traverse(child);
+interface TreeContext {
+  includeTokens: boolean;
+  /** Text the tree was parsed from, which node texts are cut from */
+  sourceCode: string;
+}
+
+/**
+ * Frees WebAssembly trees once none of their nodes is reachable anymore
+ * (native trees are garbage collected with their JavaScript objects)
+ */
+const treeRegistry = new FinalizationRegistry<Tree>((tree) => tree.delete?.());
+
+/**
+ * ASTNode backed by a tree-sitter SyntaxNode
+ *
+ * Only the type and offsets are copied when the node is created. Text is cut
+ * from the source and range read from the SyntaxNode on first access, then
+ * kept, and children, field names and tokens are collected on first access in
+ * a single tree cursor pass over the direct children. Nodes the printer never
+ * visits are never created.
+ *
+ * IMPORTANT: `children` only holds NAMED children, matching the tree-sitter
+ * CLI S-expression output the printer was written for. Anonymous nodes
+ * (keywords 'if', 'then', punctuation ';', '=', etc.) go to `tokens` when
+ * requested.
+ */
+class SyntaxTreeNode implements ASTNode {
+  readonly type: string;
+  readonly startIndex: number;
+  readonly endIndex: number;
+  readonly isError: boolean;
+  readonly fieldName?: string;
+  comments?: ASTNode[];
+  fileComments?: ASTNode[];
+  readonly _syntaxNode: SyntaxNode;
+  private readonly context: TreeContext;
+  private childNodes?: ASTNode[];
+  private childTokens?: Token[];
+  private cachedText?: string;
+  private cachedRange?: Range;
+
+  constructor(node: SyntaxNode, context: TreeContext, fieldName?: string) {
+    this.type = node.type;
+    this.startIndex = node.startIndex;
+    this.endIndex = node.endIndex;
+    this.isError = this.type === "ERROR";
+    if (fieldName) {
+      this.fieldName = fieldName;
     }
+    this._syntaxNode = node;
+    this.context = context;
+  }
+
+  get text(): string {
+    this.cachedText ??= this.context.sourceCode.slice(this.startIndex, this.endIndex);
+    return this.cachedText;
+  }
+
+  get range(): Range {
+    this.cachedRange ??= convertRange(this._syntaxNode);
+    return this.cachedRange;
+  }
+
+  get isMissing(): boolean {
+    return this._syntaxNode.isMissing;
+  }
+
+  get children(): ASTNode[] {
+    if (!this.childNodes) {
+      this.expand();
+    }
+    return this.childNodes!;
+  }
+
+  /** Replaceable, e.g. to take comments out of the tree */
+  set children(children: ASTNode[]) {
+    this.childNodes = children;
   }
 
-  traverse(node);
-  return { errorCount, missingCount };
+  get tokens(): Token[] | undefined {
+    if (!this.context.includeTokens) {
+      return undefined;
+    }
+    if (!this.childTokens) {
+      this.expand();
+    }
+    return this.childTokens;
+  }
+
+  /**
+   * Convert the direct children, reading field names from the cursor
+   */
+  private expand(): void {
+    const children: ASTNode[] = [];
+    const tokens: Token[] = [];
+    const cursor = this._syntaxNode.walk();
+
+    if (cursor.gotoFirstChild()) {
+      do {
+        const child = cursor.currentNode;
+        const fieldName = cursor.currentFieldName || undefined;
+        if (child.isNamed) {
+          children.push(new SyntaxTreeNode(child, this.context, fieldName));
+        } else if (this.context.includeTokens) {
+          // Offsets are read from the parser on each access, so once each
+          const { startIndex, endIndex } = child;
+          const token: Token = {
+            type: child.type,
+            text: this.context.sourceCode.slice(startIndex, endIndex),
+            range: convertRange(child),
+            startIndex,
+            endIndex,
+            isMissing: child.isMissing,
+          };
+          if (fieldName) {
+            token.fieldName = fieldName;
+          }
+          tokens.push(token);
+        }
+      } while (cursor.gotoNextSibling());
+    }
+    cursor.delete?.();
+
+    // Keep children assigned before the first read (see the setter)
+    this.childNodes ??= children;
+    if (this.context.includeTokens) {
+      this.childTokens = tokens;
+    }
+  }
 }
 
 /**
- * Parse Modelica source code using native tree-sitter bindings
+ * Build the ParseResult of a tree-sitter tree
+ * @param tree Tree parsed from sourceCode
+ * @param sourceCode The source the tree was parsed from
+ * @param includeTokens Whether to collect anonymous tokens in the nodes
+ * @param backend Backend that parsed the tree
+ */
+export function createParseResult(
+  tree: Tree,
+  sourceCode: string,
+  includeTokens: boolean,
+  backend: Backend = getBackend(),
+): ParseResult {
+  const context: TreeContext = { includeTokens, sourceCode };
+  if (tree.delete) {
+    treeRegistry.register(context, tree);
+  }
+  const rootNode: ASTNode = new SyntaxTreeNode(tree.rootNode, context);
+  const diagnostics = collectDiagnostics(tree.rootNode, sourceCode, backend.lookahead);
+  const errorCount = diagnostics.filter((d) => d.kind === "unexpected").length;
+
+  return {
+    rootNode,
+    hasErrors: diagnostics.length > 0,
+    errorCount,
+    missingCount: diagnostics.length - errorCount,
+    diagnostics,
+  };
+}
+
+/**
+ * Parse Modelica source code with the current backend (see initParser)
  * @param sourceCode The Modelica source code to parse
- * @param debug Optional debug flag (kept for API compatibility)
+ * @param options Parse options, or the debug flag (kept for API compatibility)
  * @returns ParseResult with AST and error information
  */
-export function parse(sourceCode: string, debug: boolean = false): ParseResult {
-  const tree = parser.parse(sourceCode);
+export function parse(
+  sourceCode: string,
+  options: ParseOptions | boolean = {},
+): ParseResult {
+  const { debug = false, includeTokens = false } =
+    typeof options === "boolean" ? { debug: options } : options;
+  const backend = getBackend();
+  const tree = backend.parse(sourceCode);
 
   if (debug) {
+    console.log("[DEBUG] Backend:", backend.name);
     console.log("[DEBUG] Tree root type:", tree.rootNode.type);
     console.log("[DEBUG] Tree has errors:", tree.rootNode.hasError);
     console.log(
@@ -150,19 +420,11 @@ export function parse(sourceCode: string, debug: boolean = false): ParseResult {
     );
   }
 
-  const rootNode = convertNode(tree.rootNode);
-  const { errorCount, missingCount } = countErrors(rootNode);
-
-  return {
-    rootNode,
-    hasErrors: errorCount > 0 || missingCount > 0,
-    errorCount,
-    missingCount,
-  };
+  return createParseResult(tree, sourceCode, includeTokens, backend);
 }
 
 /**
- * Parse Modelica file using native tree-sitter bindings
+ * Parse Modelica file with the current backend
  * @param filePath Path to the Modelica file
  * @returns ParseResult with AST and error information
  */
@@ -243,21 +505,23 @@ export function getNodeText(node: ASTNode): string {
 export function isParserAvailable(): boolean {
   try {
     // Try to parse a simple Modelica snippet
-    const tree = parser.parse("model Test end Test;");
-    return tree.rootNode.type === "stored_definitions";
+    const tree = getBackend().parse("model Test end Test;");
+    const available = tree.rootNode.type === "stored_definitions";
+    tree.delete?.();
+    return available;
   } catch {
     return false;
   }
 }
 
 /**
- * Get tree-sitter version
+ * Get the tree-sitter runtime and its version, e.g. `web-tree-sitter 0.25.10`
+ * (loads the native backend if no backend is selected yet)
+ * @returns The version, or null if no backend could be loaded
  */
 export function getParserVersion(): string | null {
   try {
-    // Return the tree-sitter package version
-    // Note: tree-sitter doesn't expose version directly, so we return a placeholder
-    return "tree-sitter (native bindings)";
+    return getBackend().runtimeVersion;
   } catch {
     return null;
   }
@@ -3,12 +3,117 @@
  * Handles all node types from the tree-sitter-modelica grammar
  */
 
-import type { AstPath, Doc, Printer } from "prettier";
+import type { AstPath, Doc, ParserOptions, Printer } from "prettier";
 import { doc } from "prettier";
-import type { ASTNode } from "./parser.js";
+import type { ASTNode, Range } from "./parser.js";
+import {
+  getDirectivesBefore,
+  markCommentsPrinted,
+  printCommentsWithoutBlankLines,
+  printDanglingComments,
+  willPrintOwnComments,
+} from "./comments.js";
+import { findRangeUnits, getRangeUnitEnd, RANGE_LIST_TYPES } from "./range.js";
+
+const { builders, utils } = doc;
+const { group, align, line, softline, hardline, join, fill, conditionalGroup, ifBreak } = builders;
 
-const { builders } = doc;
-const { group, indent, line, softline, hardline, join, fill, conditionalGroup } = builders;
+/**
+ * Options passed to the printer: Prettier's core options plus the plugin options
+ */
+export interface ModelicaOptions extends ParserOptions<ASTNode> {
+  /** Spaces per indentation level, defaults to tabWidth */
+  modelicaIndentSize?: number;
+  /** Start offset of the range to format (Prettier core only supports rangeStart for its own languages) */
+  modelicaRangeStart?: number;
+  /** End offset of the range to format */
+  modelicaRangeEnd?: number;
+  /** Fail on syntax errors, or print ERROR nodes as written */
+  modelicaParseErrors?: "error" | "verbatim";
+  /** Tree-sitter runtime used by the parser */
+  modelicaParserBackend?: "auto" | "native" | "wasm";
+  /** Fail when the printer meets node types it has no rule for */
+  modelicaStrict?: boolean;
+  /** Blank lines kept between elements, equations, statements and class sections */
+  modelicaMaxBlankLines?: number;
+  /** How HTML documentation strings in annotations are printed */
+  modelicaDocumentation?: "preserve" | "wrap" | "prettier";
+  /** Split over-long description strings, and join concatenations that fit */
+  modelicaDescriptionStrings?: "preserve" | "wrap" | "join";
+  /** Wrap line comments at printWidth and re-indent block comments */
+  modelicaReflowComments?: boolean;
+}
+
+/**
+ * A node type the printer has no rule for, printed as written
+ */
+export interface UnhandledNodeType {
+  type: string;
+  /** Number of nodes of this type */
+  count: number;
+  /** Range of the first node of this type */
+  range: Range;
+}
+
+/**
+ * Error thrown in strict mode (modelicaStrict) when the code contains node
+ * types the printer has no rule for
+ */
+export class UnhandledNodeError extends Error {
+  readonly nodeTypes: UnhandledNodeType[];
+
+  constructor(nodeTypes: UnhandledNodeType[]) {
+    const list = nodeTypes.map(({ type, count, range }) => {
+      const location = `${range.start.row + 1}:${range.start.column + 1}`;
+      return `  ${location} ${type}${count > 1 ? ` (${count} nodes)` : ""}`;
+    });
+    super(`Node types without a printing rule (printed as written):\n${list.join("\n")}`);
+    this.name = "UnhandledNodeError";
+    this.nodeTypes = nodeTypes;
+  }
+}
+
+/**
+ * Elements, equations and statements printed as written because they contain
+ * syntax errors (modelicaParseErrors: "verbatim"), mapped to the span of text
+ * to print. ERROR nodes whose text is part of the previous unit's span are
+ * marked as `merged` and print nothing.
+ */
+const verbatimUnits = new WeakMap<ASTNode, { start: number; end: number; merged: boolean }>();
+
+/**
+ * Node types printed as written by the default branch of printNode, by root
+ * node of the tree being printed, for the strict mode
+ */
+const unhandledNodes = new WeakMap<ASTNode, Map<string, UnhandledNodeType>>();
+
+// ===========================================
+// Indentation
+// ===========================================
+
+/**
+ * Indents contents by one Modelica indentation level. The printer builds
+ * documents with Prettier's indent (tabWidth columns or a tab); with a
+ * different modelicaIndentSize, applyIndentSize turns them into aligns of
+ * that size once the whole document is printed.
+ */
+const { indent } = builders;
+
+/**
+ * Use modelicaIndentSize spaces for the indentation levels of a document
+ * (unless it is the same as tabWidth, or tabs are used)
+ */
+function applyIndentSize(document: Doc, options: ModelicaOptions): Doc {
+  const { tabWidth, useTabs, modelicaIndentSize = tabWidth } = options;
+  if (useTabs || modelicaIndentSize === tabWidth) {
+    return document;
+  }
+  return utils.mapDoc(document, (part) =>
+    typeof part === "object" && !Array.isArray(part) && part.type === "indent"
+      ? align(modelicaIndentSize, part.contents)
+      : part,
+  );
+}
 
 // ===========================================
 // Centralized Continuation Line Handling
@@ -206,6 +311,85 @@ function formatTrailingDescription(doc: Doc, inChoices: boolean = false): Doc {
   return indent([line, doc]);
 }
 
+/**
+ * Print a string literal so that it breaks at word boundaries into `+`-joined
+ * literals where it is longer than the line: `"a b c"` becomes `"a b " +`,
+ * `"c"`. Literals containing line breaks are printed as written.
+ */
+function printWrappedString(literal: string): Doc {
+  const content = literal.slice(1, -1);
+  const words = content.match(/\s*\S+\s*/g);
+  if (!words || words.length < 2 || content.includes("\n")) {
+    return literal;
+  }
+  // Each break is a group of its own, so that it is measured together with
+  // the following word and the `" +` printed after it (a fill would measure
+  // the words only, and let the `" +` overflow the line). The trailing
+  // whitespace of each word stays before the break.
+  const last = words.length - 1;
+  return words.map((word, i) => [
+    i === 0 ? '"' : group(ifBreak(['" +', line, '"'], "")),
+    word,
+    i === last ? '"' : "",
+  ]);
+}
+
+/**
+ * Join the literals of a concatenation that were split at word boundaries
+ * (after whitespace), as wrapping splits them, so that they are wrapped again
+ * as one. Literals split elsewhere, or containing line breaks, stay separate.
+ */
+function joinWrappedLiterals(literals: string[]): string[] {
+  const joined: string[] = [];
+  for (const literal of literals) {
+    const previous = joined[joined.length - 1];
+    if (previous !== undefined && /\s"$/.test(previous) && !`${previous}${literal}`.includes("\n")) {
+      joined[joined.length - 1] = `${previous.slice(0, -1)}${literal.slice(1)}`;
+    } else {
+      joined.push(literal);
+    }
+  }
+  return joined;
+}
+
+/**
+ * Print a description string, which may be a concatenation of literals
+ * (`"a" + "b"`). With modelicaDescriptionStrings "wrap", over-long literals
+ * are split at word boundaries, after joining the literals that an earlier
+ * split produced; with "join", a concatenation that fits on one line is also
+ * printed as a single literal.
+ */
+function printDescriptionString(node: ASTNode, options: ModelicaOptions): Doc {
+  const literals = node.children
+    .filter((child) => child.type === "STRING")
+    .map((child) => child.text ?? "");
+  const mode = options.modelicaDescriptionStrings ?? "preserve";
+  if (mode === "preserve") {
+    return group(indent(join([" +", line], literals)));
+  }
+
+  const wrapped = group(
+    indent(join([" +", line], joinWrappedLiterals(literals).map(printWrappedString))),
+  );
+  if (mode === "join" && literals.length > 1) {
+    const joined = `"${literals.map((literal) => literal.slice(1, -1)).join("")}"`;
+    return conditionalGroup([joined, wrapped]);
+  }
+  return wrapped;
+}
+
+/**
+ * Print the comments at the end of the line of a `then` or `else` keyword
+ * (attached to the node with the keyword as marker), after the keyword
+ */
+function printKeywordComments(
+  path: AstPath<ASTNode>,
+  options: ModelicaOptions,
+  keyword: "then" | "else",
+): Doc[] {
+  return printDanglingComments(path, options, keyword).map((comment) => [" ", comment]);
+}
+
 /**
  * Determines if an if-expression appears "mid-line" - i.e., after something
  * on the same line like `name=if ...` or `arg=if ...`.
@@ -593,18 +777,51 @@ function isInsideGraphicalPrimitive(path: AstPath<ASTNode>): boolean {
 
 /**
  * Main print function for Modelica AST
+ * Prints the comments of the node when Prettier leaves them to the printer
+ * (see willPrintOwnComments). Once the whole tree is printed, applies
+ * modelicaIndentSize and, in strict mode, fails if some node types fell back
+ * to their source text.
  */
 export const printModelica: Printer<ASTNode>["print"] = (
   path: AstPath<ASTNode>,
-  __options: object,
+  options: ModelicaOptions,
   print: (path: AstPath<ASTNode>) => Doc,
 ): Doc => {
+  let doc = printNode(path, options, print);
+  if (willPrintOwnComments(path, options)) {
+    doc = printCommentsWithoutBlankLines(path, options, doc);
+  }
+  if (path.getValue() !== path.root) {
+    return doc;
+  }
+  if (options.modelicaStrict) {
+    const unhandled = unhandledNodes.get(path.root);
+    if (unhandled && unhandled.size > 0) {
+      throw new UnhandledNodeError([...unhandled.values()]);
+    }
+  }
+  return applyIndentSize(doc, options);
+};
+
+/**
+ * Print a node according to its type
+ */
+function printNode(
+  path: AstPath<ASTNode>,
+  options: ModelicaOptions,
+  print: (path: AstPath<ASTNode>) => Doc,
+): Doc {
   const node = path.getValue();
 
   if (!node) {
     return "";
   }
 
+  const verbatimSpan = verbatimUnits.get(node);
+  if (verbatimSpan) {
+    return printVerbatimUnit(path, options, verbatimSpan);
+  }
+
   // Route to appropriate handler based on node type
   switch (node.type) {
     // ===========================================
@@ -618,15 +835,18 @@ export const printModelica: Printer<ASTNode>["print"] = (
     case "STRING": {
       const text = node.text ?? "";
 
-      // Check if this is HTML documentation in an annotation
+      // Check if this is HTML documentation in an annotation. With
+      // modelicaDocumentation "prettier", it is formatted by
+      // embedDocumentation instead (and wrapped here only if
+      // embeddedLanguageFormatting is "off").
       const inAnnotation = isInsideAnnotation(path);
-      if (inAnnotation && text.includes("<html>")) {
+      if (inAnnotation && text.includes("<html>") && options.modelicaDocumentation !== "preserve") {
         // Extract string content (remove quotes)
         const match = text.match(/^"(.*)"$/s);
         if (match) {
           const htmlContent = match[1];
           // Format HTML with line length limit
-          const formatted = formatHTMLString(htmlContent, 80, "");
+          const formatted = formatHTMLString(htmlContent, options.printWidth, "");
           return `"${formatted}"`;
         }
       }
@@ -634,15 +854,27 @@ export const printModelica: Printer<ASTNode>["print"] = (
       return text;
     }
 
-    case "BLOCK_COMMENT":
-    case "comment":
-      return node.text ?? "";
+    // Only reached with modelicaParseErrors: "verbatim" (the parser fails
+    // otherwise): keep code that did not parse exactly as written
+    case "ERROR":
+      return utils.replaceEndOfLine(node.text ?? "");
 
     // ===========================================
     // Top-level structure
     // ===========================================
-    case "stored_definitions":
+    case "stored_definitions": {
+      const rangeStart = options.modelicaRangeStart ?? 0;
+      const rangeEnd = options.modelicaRangeEnd ?? Infinity;
+      if (rangeStart > 0 || rangeEnd < options.originalText.length) {
+        return printRange(path, options, print, rangeStart, rangeEnd);
+      }
+      if (node.children.length === 0) {
+        // File with nothing but comments
+        const comments = printDanglingComments(path, options);
+        return comments.length > 0 ? [join(hardline, comments), hardline] : "";
+      }
       return [join(hardline, path.map(print, "children")), hardline];
+    }
 
     case "stored_definition":
       return join(hardline, path.map(print, "children"));
@@ -677,15 +909,26 @@ export const printModelica: Printer<ASTNode>["print"] = (
       return node.text ?? "";
     }
 
-    case "long_class_specifier": {
+    case "long_class_specifier":
+    case "extends_class_specifier": {
+      // The extends form (`model extends A(...) ... end A;`) has the same body
       const parts: Doc[] = [];
       let className = "";
 
+      // Blank lines are kept between sections, not after the class header
+      let afterSection = false;
+
       for (let i = 0; i < node.children.length; i++) {
         const child = node.children[i];
+        const blankLines = afterSection ? printBlankLinesBefore(child, options) : [];
         if (child.type === "IDENT" && !className) {
           className = child.text ?? "";
+          if (node.type === "extends_class_specifier") {
+            parts.push("extends ");
+          }
           parts.push(className);
+        } else if (child.type === "class_modification") {
+          parts.push(path.call(print, "children", i));
         } else if (child.type === "description_string") {
           parts.push(indent([line, path.call(print, "children", i)]));
         } else if (child.type === "extends_clause") {
@@ -696,23 +939,35 @@ export const printModelica: Printer<ASTNode>["print"] = (
           child.type === "public_element_list" ||
           child.type === "protected_element_list"
         ) {
-          parts.push(indent([line, path.call(print, "children", i)]));
+          parts.push(indent([line, ...blankLines, path.call(print, "children", i)]));
+          afterSection = true;
         } else if (
           child.type === "equation_section" ||
           child.type === "algorithm_section"
         ) {
-          // Equation/algorithm sections should start on a new line (no blank line)
-          parts.push(hardline, path.call(print, "children", i));
+          // Equation/algorithm sections start on a new line
+          parts.push(hardline, ...blankLines, path.call(print, "children", i));
+          afterSection = true;
         } else if (child.type === "annotation_clause") {
-          parts.push(hardline, path.call(print, "children", i));
+          // Generated graphics are often excluded from formatting
+          if (getDirectivesBefore(child, path.root, options.originalText).some(({ kind }) => kind === "ignore")) {
+            const end = getRangeUnitEnd(options.originalText, child);
+            verbatimUnits.set(child, { start: child.startIndex, end, merged: false });
+          }
+          parts.push(hardline, ...blankLines, path.call(print, "children", i));
+          afterSection = true;
         } else if (child.type === "external_clause") {
-          parts.push(hardline, path.call(print, "children", i));
-        } else if (child.type === "comment" || child.type === "BLOCK_COMMENT") {
-          // Comments between sections - indent them like other content
-          parts.push(indent([line, path.call(print, "children", i)]));
+          parts.push(hardline, ...blankLines, path.call(print, "children", i));
+          afterSection = true;
         }
       }
 
+      // Comments in an otherwise empty class body
+      const danglingComments = printDanglingComments(path, options);
+      if (danglingComments.length > 0) {
+        parts.push(indent([line, join(hardline, danglingComments)]));
+      }
+
       parts.push(hardline, "end ", className, ";");
       return group(parts);
     }
@@ -770,9 +1025,30 @@ export const printModelica: Printer<ASTNode>["print"] = (
       return group(parts);
     }
 
-    case "derivative_class_specifier":
-    case "extends_class_specifier":
-      return printChildrenWithSpaces(path, print);
+    case "derivative_class_specifier": {
+      // Format: IDENT = der(type_specifier, IDENT {, IDENT}) [description_string] [annotation_clause]
+      let name = "";
+      const args: Doc[] = [];
+      const trailingParts: Doc[] = [];
+      const inChoices = isInsideChoicesAnnotation(path);
+
+      for (let i = 0; i < node.children.length; i++) {
+        const child = node.children[i];
+        if (child.type === "IDENT" && !name) {
+          name = child.text ?? "";
+        } else if (child.type === "type_specifier" || child.type === "IDENT") {
+          // The function, then the inputs it is differentiated with respect to
+          args.push(path.call(print, "children", i));
+        } else if (
+          child.type === "description_string" ||
+          child.type === "annotation_clause"
+        ) {
+          trailingParts.push(formatTrailingDescription(path.call(print, "children", i), inChoices));
+        }
+      }
+
+      return group([name, " = der(", join(", ", args), ")", ...trailingParts]);
+    }
 
     case "enumeration_class_specifier": {
       // Format: IDENT = enumeration(enum_list) [description_string] [annotation_clause]
@@ -833,27 +1109,27 @@ export const printModelica: Printer<ASTNode>["print"] = (
     // Element lists
     // ===========================================
     case "element_list":
-      return join(hardline, path.map(print, "children"));
+      return printList(path, options, print);
 
     case "public_element_list":
       return [
         "public",
-        indent([line, join(hardline, path.map(print, "children"))]),
+        indent([line, printList(path, options, print)]),
       ];
 
     case "protected_element_list":
       return [
         "protected",
-        indent([line, join(hardline, path.map(print, "children"))]),
+        indent([line, printList(path, options, print)]),
       ];
 
     // ===========================================
     // Elements
     // ===========================================
     case "named_element": {
-      // Extract prefixes (parameter, final, etc.) from node.text
+      // Prefixes (redeclare, final, inner, replaceable, ...) before the element
       const parts: Doc[] = [];
-      const prefix = extractElementPrefix(node);
+      const prefix = getPrefixTokens(node, node.children[0]);
       if (prefix) {
         parts.push(prefix, " ");
       }
@@ -870,9 +1146,9 @@ export const printModelica: Printer<ASTNode>["print"] = (
       );
 
       // Check if class_definition contains a short-form specifier (needs semicolon)
-      // vs long_class_specifier (already ends with "end ClassName;")
+      // vs long_class_specifier or extends_class_specifier (already ends with "end ClassName;")
       // Short-form specifiers include: short_class_specifier, enumeration_class_specifier,
-      // derivative_class_specifier, extends_class_specifier
+      // derivative_class_specifier
       const hasShortClassDefinition = node.children.some(
         (c) =>
           c.type === "class_definition" &&
@@ -880,8 +1156,7 @@ export const printModelica: Printer<ASTNode>["print"] = (
             (cc: any) =>
               cc.type === "short_class_specifier" ||
               cc.type === "enumeration_class_specifier" ||
-              cc.type === "derivative_class_specifier" ||
-              cc.type === "extends_class_specifier",
+              cc.type === "derivative_class_specifier",
           ),
       );
 
@@ -964,8 +1239,11 @@ export const printModelica: Printer<ASTNode>["print"] = (
     case "component_clause": {
       const parts: Doc[] = [];
 
-      // Extract prefix keywords (parameter, constant, etc.) before type_specifier
-      const prefix = extractComponentClausePrefix(node);
+      // Prefix keywords (parameter, constant, etc.) before type_specifier
+      const prefix = getPrefixTokens(
+        node,
+        node.children.find((c) => c.type === "type_specifier"),
+      );
       if (prefix) {
         parts.push(prefix, " ");
       }
@@ -1012,8 +1290,6 @@ export const printModelica: Printer<ASTNode>["print"] = (
         } else if (child.type === "annotation_clause") {
           // Break line before annotation (use shared helper)
           parts.push(formatTrailingDescription(path.call(print, "children", i)));
-        } else if (child.type === "comment") {
-          parts.push(" ", path.call(print, "children", i));
         }
       }
       return group(parts);
@@ -1273,8 +1549,8 @@ export const printModelica: Printer<ASTNode>["print"] = (
 
     case "element_modification": {
       const parts: Doc[] = [];
-      // Check for 'each' and 'final' prefixes
-      const prefix = extractModificationPrefix(node);
+      // 'each' and 'final' prefixes
+      const prefix = getPrefixTokens(node, node.children[0]);
       if (prefix) {
         parts.push(prefix, " ");
       }
@@ -1319,12 +1595,9 @@ export const printModelica: Printer<ASTNode>["print"] = (
       return parts;
     }
 
-    case "element_replaceable":
-      return printChildrenWithSpaces(path, print);
-
     case "class_redeclaration": {
-      // Extract 'redeclare' and optionally 'final', 'each' from node.text
-      const prefix = extractRedeclarePrefix(node);
+      // 'redeclare' and optionally 'final', 'each'
+      const prefix = getPrefixTokens(node, node.children[0]) || "redeclare";
       const parts: Doc[] = [prefix, " "];
 
       for (let i = 0; i < node.children.length; i++) {
@@ -1334,19 +1607,23 @@ export const printModelica: Printer<ASTNode>["print"] = (
           child.type === "class_definition"
         ) {
           parts.push(path.call(print, "children", i));
+        } else if (child.type === "constraining_clause") {
+          parts.push(" ", path.call(print, "children", i));
         }
       }
       return parts;
     }
 
     case "component_redeclaration": {
-      const prefix = extractRedeclarePrefix(node);
+      const prefix = getPrefixTokens(node, node.children[0]) || "redeclare";
       const parts: Doc[] = [prefix, " "];
 
       for (let i = 0; i < node.children.length; i++) {
         const child = node.children[i];
         if (child.type === "component_clause") {
           parts.push(path.call(print, "children", i));
+        } else if (child.type === "constraining_clause") {
+          parts.push(" ", path.call(print, "children", i));
         }
       }
       return parts;
@@ -1370,19 +1647,18 @@ export const printModelica: Printer<ASTNode>["print"] = (
     // ===========================================
     case "equation_section": {
       const parts: Doc[] = [];
-      // Check if this is an initial equation section by looking at the node text
-      const isInitial = (node.text ?? "").trimStart().startsWith("initial");
+      // Check if this is an initial equation section by its first keyword
+      const isInitial = node.tokens?.[0]?.type === "initial";
       const content: Doc[] = [];
 
       for (let i = 0; i < node.children.length; i++) {
         const child = node.children[i];
         if (child.type === "equation_list") {
           content.push(path.call(print, "children", i));
-        } else if (child.type === "comment" || child.type === "BLOCK_COMMENT") {
-          // Comments before the equation list - add them in order
-          content.push(path.call(print, "children", i));
         }
       }
+      // Comments in a section without equations
+      content.push(...printDanglingComments(path, options));
 
       parts.push(isInitial ? "initial equation" : "equation");
       if (content.length > 0) {
@@ -1392,7 +1668,7 @@ export const printModelica: Printer<ASTNode>["print"] = (
     }
 
     case "equation_list":
-      return join(hardline, path.map(print, "children"));
+      return printList(path, options, print);
 
     case "simple_equation": {
       // Handle equation with two expressions and = between them
@@ -1417,8 +1693,6 @@ export const printModelica: Printer<ASTNode>["print"] = (
             child.type === "expression"
           ) {
             result.push(path.call(print, "children", i));
-          } else if (child.type === "comment") {
-            result.push(" ", path.call(print, "children", i));
           }
         }
         result.push(";");
@@ -1431,8 +1705,6 @@ export const printModelica: Printer<ASTNode>["print"] = (
         const child = node.children[i];
         if (child.type === "simple_expression" || child.type === "expression") {
           parts.push(path.call(print, "children", i));
-        } else if (child.type === "comment") {
-          parts.push(" ", path.call(print, "children", i));
         }
       }
       parts.push(";");
@@ -1524,6 +1796,7 @@ export const printModelica: Printer<ASTNode>["print"] = (
               line,
               "then",
             ]),
+            ...printKeywordComments(path, options, "then"),
           );
         } else if (
           child.type === "equation_list" ||
@@ -1535,7 +1808,7 @@ export const printModelica: Printer<ASTNode>["print"] = (
             parts.push(indent([line, path.call(print, "children", i)]));
           } else {
             // Second statement_list is the else branch (no elseif in between)
-            parts.push(hardline, "else");
+            parts.push(hardline, "else", ...printKeywordComments(path, options, "else"));
             parts.push(indent([line, path.call(print, "children", i)]));
           }
         } else if (
@@ -1573,6 +1846,7 @@ export const printModelica: Printer<ASTNode>["print"] = (
               line,
               "then",
             ]),
+            ...printKeywordComments(path, options, "then"),
           );
         } else if (
           child.type === "equation_list" ||
@@ -1640,18 +1914,18 @@ export const printModelica: Printer<ASTNode>["print"] = (
     // ===========================================
     case "algorithm_section": {
       const parts: Doc[] = [];
-      // Check if this is an initial algorithm section by looking at the node text
-      const isInitial = (node.text ?? "").trimStart().startsWith("initial");
+      // Check if this is an initial algorithm section by its first keyword
+      const isInitial = node.tokens?.[0]?.type === "initial";
       const content: Doc[] = [];
 
       for (let i = 0; i < node.children.length; i++) {
         const child = node.children[i];
         if (child.type === "statement_list") {
           content.push(path.call(print, "children", i));
-        } else if (child.type === "comment" || child.type === "BLOCK_COMMENT") {
-          content.push(path.call(print, "children", i));
         }
       }
+      // Comments in a section without statements
+      content.push(...printDanglingComments(path, options));
 
       parts.push(isInitial ? "initial algorithm" : "algorithm");
       if (content.length > 0) {
@@ -1661,7 +1935,7 @@ export const printModelica: Printer<ASTNode>["print"] = (
     }
 
     case "statement_list":
-      return join(hardline, path.map(print, "children"));
+      return printList(path, options, print);
 
     case "assignment_statement": {
       const parts: Doc[] = [];
@@ -1680,8 +1954,6 @@ export const printModelica: Printer<ASTNode>["print"] = (
             parts.push(" := ");
           }
           parts.push(path.call(print, "children", i));
-        } else if (child.type === "comment") {
-          parts.push(" ", path.call(print, "children", i));
         }
       }
       parts.push(";");
@@ -1841,15 +2113,8 @@ export const printModelica: Printer<ASTNode>["print"] = (
       return join(":", path.map(print, "children"));
 
     case "binary_expression": {
-      // Extract operator from the gap between children in source text
       if (node.children.length === 2) {
-        const leftChild = node.children[0];
-        const rightChild = node.children[1];
-        const operator = extractOperator(
-          node.text ?? "",
-          leftChild,
-          rightChild,
-        );
+        const operator = getOperator(node);
 
         // Logical operators (and/or) - flatten SAME operator only
         // to avoid cascading indentation in conditions like:
@@ -1874,11 +2139,7 @@ export const printModelica: Printer<ASTNode>["print"] = (
 
             // Check if this is a binary_expression with the SAME logical operator
             if (n.type === "binary_expression" && n.children?.length === 2) {
-              const op = extractOperator(
-                n.text ?? "",
-                n.children[0],
-                n.children[1],
-              );
+              const op = getOperator(n);
               if (op === operator) {
                 p.call(flattenLogical, "children", 0);
                 ops.push(op);
@@ -1893,11 +2154,7 @@ export const printModelica: Printer<ASTNode>["print"] = (
                 child.type === "binary_expression" &&
                 child.children?.length === 2
               ) {
-                const op = extractOperator(
-                  child.text ?? "",
-                  child.children[0],
-                  child.children[1],
-                );
+                const op = getOperator(child);
                 if (op === operator) {
                   p.call(
                     (innerPath) => {
@@ -1989,11 +2246,7 @@ export const printModelica: Printer<ASTNode>["print"] = (
             // Check if this is a binary_expression (directly or wrapped in simple_expression)
             const binaryNode = unwrapToBinary(n);
             if (binaryNode && binaryNode.children?.length === 2) {
-              const op = extractOperator(
-                binaryNode.text ?? "",
-                binaryNode.children[0],
-                binaryNode.children[1],
-              );
+              const op = getOperator(binaryNode);
               if (arithmeticOperators.includes(op)) {
                 // Need to navigate to the actual binary_expression in the path
                 if (
@@ -2148,21 +2401,8 @@ export const printModelica: Printer<ASTNode>["print"] = (
     }
 
     case "unary_expression": {
-      // Check for operator at start of text
-      const text = node.text ?? "";
-      const parts: Doc[] = [];
-
-      if (text.startsWith("not ")) {
-        parts.push("not ");
-      } else if (text.startsWith(".-")) {
-        parts.push(".-");
-      } else if (text.startsWith(".+")) {
-        parts.push(".+");
-      } else if (text.startsWith("-")) {
-        parts.push("-");
-      } else if (text.startsWith("+")) {
-        parts.push("+");
-      }
+      const operator = getOperator(node);
+      const parts: Doc[] = [operator === "not" ? "not " : operator];
 
       for (let i = 0; i < node.children.length; i++) {
         parts.push(path.call(print, "children", i));
@@ -2374,7 +2614,8 @@ export const printModelica: Printer<ASTNode>["print"] = (
     // Function calls
     // ===========================================
     case "function_application": {
-      const parts: Doc[] = [];
+      // Built-in functions with a keyword for a name: der(), initial(), pure()
+      const parts: Doc[] = [getPrefixTokens(node, node.children[0])];
 
       for (let i = 0; i < node.children.length; i++) {
         const child = node.children[i];
@@ -2693,7 +2934,7 @@ export const printModelica: Printer<ASTNode>["print"] = (
     // Annotations and descriptions
     // ===========================================
     case "description_string":
-      return printChildren(path, print);
+      return printDescriptionString(node, options);
 
     case "annotation_clause": {
       // Only add semicolon for class-level annotations (parent is long_class_specifier)
@@ -2731,225 +2972,388 @@ export const printModelica: Printer<ASTNode>["print"] = (
     case "language_specification":
       return printChildren(path, print);
 
-    case "external_function":
-      return printChildrenWithSpaces(path, print);
+    case "external_function": {
+      // Format: [component_reference =] IDENT([expression_list])
+      const parts: Doc[] = [];
+      const args: Doc[] = [];
+
+      for (let i = 0; i < node.children.length; i++) {
+        const child = node.children[i];
+        if (child.type === "component_reference") {
+          parts.push(path.call(print, "children", i), " = ");
+        } else if (child.type === "IDENT") {
+          parts.push(child.text ?? "");
+        } else if (child.type === "expression_list") {
+          args.push(path.call(print, "children", i));
+        }
+      }
+      parts.push("(", ...args, ")");
+      return group(parts);
+    }
 
     // ===========================================
     // Default fallback
     // ===========================================
     default:
-      // For any unhandled node type, print children or text
-      // If no children, this is a leaf/terminal node - use its text
-      if (!node.children || node.children.length === 0) {
-        return node.text ?? "";
-      }
-      return printChildrenWithSpaces(path, print);
+      // Node types without a rule keep their source text: joining the
+      // children would drop the keywords and punctuation between them.
+      // Items of a list are printed with their `;`, so it is kept too.
+      recordUnhandledNode(path.root, node);
+      return printVerbatimUnit(path, options, {
+        start: node.startIndex,
+        end: RANGE_LIST_TYPES.has(path.getParentNode()?.type ?? "")
+          ? getRangeUnitEnd(options.originalText, node)
+          : node.endIndex,
+        merged: false,
+      });
   }
-};
+}
+
+/**
+ * Count a node printed by the default branch of printNode
+ */
+function recordUnhandledNode(root: ASTNode, node: ASTNode): void {
+  let unhandled = unhandledNodes.get(root);
+  if (!unhandled) {
+    unhandled = new Map();
+    unhandledNodes.set(root, unhandled);
+  }
+  const entry = unhandled.get(node.type);
+  if (entry) {
+    entry.count++;
+  } else {
+    unhandled.set(node.type, { type: node.type, count: 1, range: node.range });
+  }
+}
 
 // ===========================================
 // Helper functions
 // ===========================================
 
 /**
- * Print all children without separators
+ * Call a function with the path of a descendant given by its child indices
  */
-function printChildren(
+function callAtPath<T>(
+  path: AstPath<ASTNode>,
+  indices: number[],
+  callback: (path: AstPath<ASTNode>) => T,
+): T {
+  if (indices.length === 0) {
+    return callback(path);
+  }
+  return path.call(
+    (childPath) => callAtPath(childPath, indices.slice(1), callback),
+    "children",
+    indices[0],
+  );
+}
+
+/**
+ * Print only the elements, equations or statements covering a range.
+ * Everything outside of them is kept byte-identical, and the formatted units
+ * are aligned to the column they started at in the original source.
+ */
+function printRange(
   path: AstPath<ASTNode>,
+  options: ModelicaOptions,
   print: (path: AstPath<ASTNode>) => Doc,
-): Doc[] {
-  return path.map(print, "children");
+  rangeStart: number,
+  rangeEnd: number,
+): Doc {
+  const text = options.originalText;
+  const units = findRangeUnits(path.getValue(), text, rangeStart, rangeEnd);
+  if (!units) {
+    return utils.replaceEndOfLine(text);
+  }
+
+  return callAtPath(path, units.parentPath, (parentPath) => {
+    const parent = parentPath.getValue();
+    const parts: Doc[] = [];
+    if (RANGE_LIST_TYPES.has(parent.type)) {
+      findIgnoredUnits(parent, path.root, text);
+    }
+    let offset = 0;
+
+    // Comments outside the units are part of the verbatim text
+    const spans: [number, number][] = [];
+    for (let i = units.first; i <= units.last; i++) {
+      spans.push([parent.children[i].startIndex, getRangeUnitEnd(text, parent.children[i])]);
+    }
+    const isOutside = (comment: ASTNode) =>
+      !spans.some(([start, end]) => comment.startIndex >= start && comment.endIndex <= end);
+    markCommentsPrinted(path.root, isOutside);
+
+    for (let i = units.first; i <= units.last; i++) {
+      const unit = parent.children[i];
+      unit.comments = unit.comments?.filter((comment) => !isOutside(comment));
+      // Part of a span excluded from formatting: its text is copied with
+      // the text between units
+      const verbatimSpan = verbatimUnits.get(unit);
+      if (verbatimSpan?.merged) {
+        continue;
+      }
+      // Between formatted units, blank lines follow the same limit as in a
+      // whole-file format
+      const before = text.slice(offset, unit.startIndex);
+      const afterUnit = i > units.first && !verbatimUnits.get(parent.children[i - 1])?.merged;
+      parts.push(utils.replaceEndOfLine(afterUnit ? limitBlankLines(before, options) : before));
+
+      // Continuation lines line up with where the unit started
+      const lineStart = text.lastIndexOf("\n", unit.startIndex - 1) + 1;
+      const column = text.slice(lineStart, unit.startIndex).replace(/\S/g, " ");
+      parts.push(align(column, parentPath.call(print, "children", i)));
+
+      offset = verbatimSpan ? verbatimSpan.end : getRangeUnitEnd(text, unit);
+    }
+
+    parts.push(utils.replaceEndOfLine(text.slice(offset)));
+    return parts;
+  });
 }
 
 /**
- * Print all children with space separators
+ * Print the elements, equations or statements of a list, one per line, with
+ * the blank lines between them (see printBlankLinesBefore).
+ * With modelicaParseErrors "verbatim", items containing syntax errors are
+ * first marked to be printed as written (see findVerbatimUnits).
  */
-function printChildrenWithSpaces(
+function printList(
   path: AstPath<ASTNode>,
+  options: ModelicaOptions,
   print: (path: AstPath<ASTNode>) => Doc,
 ): Doc[] {
-  const node = path.getValue();
+  const list = path.getValue();
+  if (options.modelicaParseErrors === "verbatim") {
+    findVerbatimUnits(list, options.originalText);
+  }
+  findIgnoredUnits(list, path.root, options.originalText);
   const parts: Doc[] = [];
-
-  for (let i = 0; i < node.children.length; i++) {
-    if (i > 0) {
-      parts.push(" ");
+  path.map(print, "children").forEach((item, i) => {
+    // Merged into the previous verbatim item
+    if (item === "") {
+      return;
     }
-    parts.push(path.call(print, "children", i));
-  }
-
+    if (parts.length > 0) {
+      parts.push(hardline, ...printBlankLinesBefore(list.children[i], options));
+    }
+    parts.push(item);
+  });
   return parts;
 }
 
 /**
- * Extract prefix keywords (parameter, final, etc.) from element node text
+ * Number of blank lines before a node in the original text, counted before
+ * its leading comments (a blank line between those and the node itself is
+ * kept as well, unless modelicaMaxBlankLines is 0: see willPrintOwnComments)
  */
-function extractElementPrefix(node: ASTNode): string {
-  const text = node.text ?? "";
-
-  // Get the start position of the first child
-  const firstChild = node.children[0];
-  if (!firstChild) return "";
-
-  const startRow = node.range.start.row;
-  const startCol = node.range.start.column;
-  const childStartRow = firstChild.range.start.row;
-  const childStartCol = firstChild.range.start.column;
-
-  // If child starts at same position as node, no prefix
-  if (startRow === childStartRow && startCol === childStartCol) {
-    return "";
+function countBlankLinesBefore(node: ASTNode, text: string): number {
+  let start = node.startIndex;
+  for (const comment of (node.comments ?? []) as Array<ASTNode & { leading?: boolean }>) {
+    if (comment.leading && comment.startIndex < start) {
+      start = comment.startIndex;
+    }
   }
-
-  // Extract the prefix text from the node
-  const lines = text.split("\n");
-  let prefixText = "";
-
-  if (startRow === childStartRow) {
-    // Same line - extract from startCol to childStartCol
-    prefixText = lines[0].substring(0, childStartCol - startCol).trim();
-  } else {
-    // Different lines - take the first line up to newline
-    prefixText = lines[0].trim();
+  let newlines = 0;
+  for (let i = start - 1; i >= 0 && /\s/.test(text[i]); i--) {
+    if (text[i] === "\n") {
+      newlines++;
+    }
   }
-
-  return prefixText;
+  return Math.max(0, newlines - 1);
 }
 
 /**
- * Extract prefix keywords (parameter, constant, final, etc.) from component_clause
- * These appear before the type_specifier
+ * Blank lines to print before a list item or class section: as many as in
+ * the original, up to modelicaMaxBlankLines
  */
-function extractComponentClausePrefix(node: ASTNode): string {
-  const text = node.text ?? "";
-
-  // Find the type_specifier child
-  const typeSpec = node.children.find((c) => c.type === "type_specifier");
-  if (!typeSpec) return "";
-
-  const startRow = node.range.start.row;
-  const startCol = node.range.start.column;
-  const typeStartRow = typeSpec.range.start.row;
-  const typeStartCol = typeSpec.range.start.column;
-
-  // If type_specifier starts at same position as component_clause, no prefix
-  if (startRow === typeStartRow && startCol === typeStartCol) {
-    return "";
-  }
-
-  // Extract the prefix text
-  const lines = text.split("\n");
-  let prefixText = "";
-
-  if (startRow === typeStartRow) {
-    // Same line - extract from start to type_specifier start
-    prefixText = lines[0].substring(0, typeStartCol - startCol).trim();
-  } else {
-    // Different lines - take the first line
-    prefixText = lines[0].trim();
-  }
-
-  return prefixText;
+function printBlankLinesBefore(node: ASTNode, options: ModelicaOptions): Doc[] {
+  const count = Math.min(
+    countBlankLinesBefore(node, options.originalText),
+    options.modelicaMaxBlankLines ?? 1,
+  );
+  return Array.from({ length: count }, () => hardline);
 }
 
 /**
- * Extract modification prefix (each, final) from element_modification node
+ * Reduce runs of blank lines in text kept as written to modelicaMaxBlankLines
  */
-function extractModificationPrefix(node: ASTNode): string {
-  const text = node.text ?? "";
-  const firstChild = node.children[0];
-  if (!firstChild) return "";
-
-  const startCol = node.range.start.column;
-  const childStartCol = firstChild.range.start.column;
+function limitBlankLines(text: string, options: ModelicaOptions): string {
+  const maxNewlines = (options.modelicaMaxBlankLines ?? 1) + 1;
+  return text.replace(/\n(?:[ \t]*\n)+/g, (newlines) =>
+    "\n".repeat(Math.min(newlines.split("\n").length - 1, maxNewlines)),
+  );
+}
 
-  if (
-    node.range.start.row === firstChild.range.start.row &&
-    childStartCol > startCol
-  ) {
-    const lines = text.split("\n");
-    const prefixText = lines[0].substring(0, childStartCol - startCol).trim();
-    return prefixText;
+/**
+ * Check if a node contains an ERROR node or a MISSING node or token (such as
+ * a `;` the parser inserted), not counting nested lists (their items are
+ * handled on their own)
+ */
+function containsSyntaxError(node: ASTNode): boolean {
+  const syntaxNode = node._syntaxNode;
+  if (syntaxNode && !syntaxNode.hasError) {
+    return false;
   }
+  return (
+    node.isError ||
+    node.isMissing ||
+    getMissingTokenOffsets(node).length > 0 ||
+    node.children.some(
+      (child) => !RANGE_LIST_TYPES.has(child.type) && containsSyntaxError(child),
+    )
+  );
+}
 
-  return "";
+/**
+ * Offsets of the MISSING anonymous tokens directly below a node
+ */
+function getMissingTokenOffsets(node: ASTNode): number[] {
+  return (node._syntaxNode?.children ?? [])
+    .filter((child) => child && !child.isNamed && child.isMissing)
+    .map((child) => child!.startIndex);
 }
 
 /**
- * Extract redeclare prefix (redeclare, final, each) from redeclaration node
+ * Mark the items of a list that must be printed as written. Printing the
+ * parsed part of a broken item would move the ERROR text around it (e.g.
+ * after the `;` the item is printed with), so the whole item is kept, up to
+ * and including its `;`. An ERROR node between an item and its `;` joins
+ * that item.
  */
-function extractRedeclarePrefix(node: ASTNode): string {
-  const text = node.text ?? "";
-  const firstChild = node.children[0];
-  if (!firstChild) return "redeclare";
+function findVerbatimUnits(list: ASTNode, text: string): void {
+  let previous: ASTNode | undefined;
+  let previousEnd = 0;
+  // A missing `;` is a token of the list, inserted before the next item
+  const missingTokens = getMissingTokenOffsets(list);
+
+  list.children.forEach((child, i) => {
+    const next = list.children[i + 1];
+    const terminated = previous !== undefined && text[previousEnd - 1] === ";";
+    if (child.isError && previous && !terminated) {
+      previousEnd = getRangeUnitEnd(text, child);
+      const span = { start: previous.startIndex, end: previousEnd };
+      verbatimUnits.set(previous, { ...span, merged: false });
+      verbatimUnits.set(child, { ...span, merged: true });
+      return;
+    }
+
+    previous = child;
+    previousEnd = getRangeUnitEnd(text, child);
+    const missingToken = missingTokens.some(
+      (offset) => offset >= child.endIndex && (!next || offset <= next.startIndex),
+    );
+    if (missingToken || containsSyntaxError(child)) {
+      verbatimUnits.set(child, { start: child.startIndex, end: previousEnd, merged: false });
+    }
+  });
+}
 
-  const startCol = node.range.start.column;
-  const childStartCol = firstChild.range.start.column;
+/**
+ * Mark the items of a list excluded from formatting by directives: the item
+ * after `// modelica-format-ignore`, and the items from `// modelica-format
+ * off` to `// modelica-format on` (or the end of the list). Consecutive
+ * excluded items are kept as one span of text, with the spacing between them.
+ */
+function findIgnoredUnits(list: ASTNode, root: ASTNode, text: string): void {
+  let off = false;
+  let runStart: number | undefined;
+
+  const endRun = (last: number) => {
+    if (runStart === undefined) {
+      return;
+    }
+    const span = {
+      start: list.children[runStart].startIndex,
+      end: getRangeUnitEnd(text, list.children[last]),
+    };
+    verbatimUnits.set(list.children[runStart], { ...span, merged: false });
+    for (let i = runStart + 1; i <= last; i++) {
+      verbatimUnits.set(list.children[i], { ...span, merged: true });
+    }
+    runStart = undefined;
+  };
 
-  if (
-    node.range.start.row === firstChild.range.start.row &&
-    childStartCol > startCol
-  ) {
-    const lines = text.split("\n");
-    const prefixText = lines[0].substring(0, childStartCol - startCol).trim();
-    if (prefixText) return prefixText;
-  }
+  list.children.forEach((item, i) => {
+    let ignoreNext = false;
+    for (const { kind } of getDirectivesBefore(item, root, text)) {
+      if (kind === "ignore") {
+        ignoreNext = true;
+      } else {
+        off = kind === "off";
+      }
+    }
+    if (off || ignoreNext) {
+      runStart ??= i;
+    } else {
+      endRun(i - 1);
+    }
+  });
+  endRun(list.children.length - 1);
+}
 
-  return "redeclare";
+/**
+ * Print a unit marked by findVerbatimUnits as written. Comments inside the
+ * text are part of it; only comments outside of it are still printed.
+ */
+function printVerbatimUnit(
+  path: AstPath<ASTNode>,
+  options: ModelicaOptions,
+  { start, end, merged }: { start: number; end: number; merged: boolean },
+): Doc {
+  const node = path.getValue();
+  const isInside = (comment: ASTNode) =>
+    comment.startIndex >= start && comment.endIndex <= end;
+  markCommentsPrinted(path.root, isInside);
+  node.comments = node.comments?.filter((comment) => !isInside(comment));
+  return merged ? "" : utils.replaceEndOfLine(options.originalText.slice(start, end));
 }
 
 /**
- * Extract operator from binary expression text by finding what's between operands
+ * Print all children without separators
  */
-function extractOperator(
-  fullText: string,
-  leftChild: ASTNode,
-  rightChild: ASTNode,
-): string {
-  // Calculate positions relative to fullText
-  const leftText = leftChild.text ?? "";
-  const rightText = rightChild.text ?? "";
+function printChildren(
+  path: AstPath<ASTNode>,
+  print: (path: AstPath<ASTNode>) => Doc,
+): Doc[] {
+  return path.map(print, "children");
+}
 
-  // The operator is what's between leftText and rightText in fullText
-  const leftEnd = fullText.indexOf(leftText) + leftText.length;
-  const rightStart = fullText.lastIndexOf(rightText);
+/**
+ * Print all children with space separators
+ */
+function printChildrenWithSpaces(
+  path: AstPath<ASTNode>,
+  print: (path: AstPath<ASTNode>) => Doc,
+): Doc[] {
+  const node = path.getValue();
+  const parts: Doc[] = [];
 
-  if (leftEnd >= 0 && rightStart > leftEnd) {
-    const operatorText = fullText.substring(leftEnd, rightStart).trim();
-    if (operatorText) {
-      return operatorText;
+  for (let i = 0; i < node.children.length; i++) {
+    if (i > 0) {
+      parts.push(" ");
     }
+    parts.push(path.call(print, "children", i));
   }
 
-  // Fallback: try to detect common operators in the full text
-  const operators = [
-    "==",
-    "<>",
-    "<=",
-    ">=",
-    ".+",
-    ".-",
-    ".*",
-    "./",
-    ".^",
-    "and",
-    "or",
-    "<",
-    ">",
-    "+",
-    "-",
-    "*",
-    "/",
-    "^",
-    "=",
-  ];
-  for (const op of operators) {
-    if (fullText.includes(` ${op} `) || fullText.includes(op)) {
-      return op;
-    }
-  }
+  return parts;
+}
+
+/**
+ * Keywords of a node that come before the given child, e.g. `final parameter`
+ * before the type of a component clause (all of them if there is no child)
+ */
+function getPrefixTokens(node: ASTNode, child: ASTNode | undefined): string {
+  return (node.tokens ?? [])
+    .filter((token) => !child || token.startIndex < child.startIndex)
+    .map((token) => token.text)
+    .join(" ");
+}
 
-  return "?"; // Unknown operator
+/**
+ * Operator of a binary or unary expression (its only anonymous token)
+ */
+function getOperator(node: ASTNode): string {
+  return node.tokens?.[0]?.text ?? "";
 }
 
 /**
@@ -0,0 +1,111 @@
+/**
+ * Tree-sitter queries
+ * Runs S-expression queries, such as the highlight queries of the Zed
+ * extension, against parsed Modelica code
+ */
+
+import { getBackend, parse } from "./parser.js";
+import type { ASTNode, Range } from "./parser.js";
+import type { Query } from "./backend.js";
+
+/**
+ * A node captured by a query
+ */
+export interface QueryCapture {
+  /** Capture name, without the `@` (e.g. `function.builtin`) */
+  name: string;
+  /** Node type of the captured node */
+  type: string;
+  text: string;
+  range: Range;
+  startIndex: number;
+  endIndex: number;
+}
+
+/**
+ * Error thrown for a query that does not compile
+ */
+export class QueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "QueryError";
+  }
+}
+
+/**
+ * A query compiled once and run against any number of sources
+ */
+export interface CompiledQuery {
+  /**
+   * Return the captures of the query in source order
+   *
+   * @param target Modelica source code, or a node of a parsed tree to search
+   *   (only the node and its descendants are searched)
+   */
+  captures(target: string | ASTNode): QueryCapture[];
+  /** Free the query; it cannot be used afterwards */
+  delete(): void;
+}
+
+/**
+ * Compile a tree-sitter query for repeated use. Predicates such as `#eq?`
+ * and `#match?` are applied. Call `delete()` when done.
+ *
+ * @param querySource The query, in tree-sitter S-expression syntax
+ * @throws QueryError if the query does not compile
+ */
+export function compileQuery(querySource: string): CompiledQuery {
+  let query: Query;
+  try {
+    query = getBackend().query(querySource);
+  } catch (error) {
+    throw new QueryError(
+      `Invalid query: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  return {
+    captures(target) {
+      // Keep the root reachable while the tree is searched (see ASTNode._syntaxNode)
+      const root = typeof target === "string" ? parse(target).rootNode : target;
+      const node = root._syntaxNode;
+      if (!node) {
+        throw new Error("The node has no tree-sitter syntax node to query");
+      }
+      return query.captures(node).map(({ name, node: captured }) => ({
+        name,
+        type: captured.type,
+        text: captured.text,
+        range: {
+          start: { row: captured.startPosition.row, column: captured.startPosition.column },
+          end: { row: captured.endPosition.row, column: captured.endPosition.column },
+        },
+        startIndex: captured.startIndex,
+        endIndex: captured.endIndex,
+      }));
+    },
+    delete() {
+      query.delete?.();
+    },
+  };
+}
+
+/**
+ * Run a tree-sitter query and return its captures in source order.
+ * Predicates such as `#eq?` and `#match?` are applied. To run the same query
+ * on several sources, use `compileQuery()` instead.
+ *
+ * @param querySource The query, in tree-sitter S-expression syntax
+ * @param target Modelica source code, or a node of a parsed tree to search
+ *   (only the node and its descendants are searched)
+ * @returns One entry per captured node; a node captured under several names
+ *   appears once per name
+ */
+export function runQuery(querySource: string, target: string | ASTNode): QueryCapture[] {
+  const query = compileQuery(querySource);
+  try {
+    return query.captures(target);
+  } finally {
+    query.delete();
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * Range formatting support
+ * Snaps a character range to the syntax nodes that can be formatted on their own
+ */
+
+import { findNodeAtPosition } from "./parser.js";
+import type { ASTNode, Position } from "./parser.js";
+
+/**
+ * Lists whose children (elements, equations, statements) can be formatted
+ * individually, keeping the text around them untouched
+ */
+export const RANGE_LIST_TYPES = new Set([
+  "element_list",
+  "public_element_list",
+  "protected_element_list",
+  "equation_list",
+  "statement_list",
+]);
+
+/**
+ * Consecutive sibling nodes covering a formatting range
+ */
+export interface RangeUnits {
+  /** Child indices leading from the root to the parent of the units */
+  parentPath: number[];
+  /** Index of the first unit in its parent's children */
+  first: number;
+  /** Index of the last unit in its parent's children */
+  last: number;
+}
+
+/**
+ * Convert a string offset to a row/column position
+ */
+function offsetToPosition(text: string, offset: number): Position {
+  const lineStart = text.lastIndexOf("\n", offset - 1) + 1;
+  let row = 0;
+  for (let i = text.indexOf("\n"); i !== -1 && i < lineStart; i = text.indexOf("\n", i + 1)) {
+    row++;
+  }
+  return { row, column: offset - lineStart };
+}
+
+/**
+ * Child indices from the root to the given node (empty for the root itself)
+ */
+function pathToNode(root: ASTNode, target: ASTNode): number[] | null {
+  if (root === target) {
+    return [];
+  }
+  for (let i = 0; i < root.children.length; i++) {
+    const child = root.children[i];
+    if (child.startIndex <= target.startIndex && child.endIndex >= target.endIndex) {
+      const rest = pathToNode(child, target);
+      if (rest) {
+        return [i, ...rest];
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Check if the child at `index` of `parent` can be formatted on its own
+ */
+function isRangeUnit(parent: ASTNode, index: number): boolean {
+  return (
+    RANGE_LIST_TYPES.has(parent.type) ||
+    parent.children[index].type === "class_definition"
+  );
+}
+
+/**
+ * Find the nodes to format for a character range.
+ *
+ * The range is trimmed of surrounding whitespace, then extended to the nearest
+ * enclosing class definition, element, equation or statement. A range spanning
+ * several siblings of the same list (e.g. three equations) selects all of them.
+ *
+ * @param root Root node of the parsed file
+ * @param text Source text the tree was parsed from
+ * @param rangeStart Offset of the range start
+ * @param rangeEnd Offset just past the range end
+ * @returns The units to format, or null if the range contains no code
+ */
+export function findRangeUnits(
+  root: ASTNode,
+  text: string,
+  rangeStart: number,
+  rangeEnd: number,
+): RangeUnits | null {
+  let start = Math.max(0, rangeStart);
+  let end = Math.min(text.length, rangeEnd);
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  if (start >= end) {
+    return null;
+  }
+
+  const startPosition = offsetToPosition(text, start);
+  const endPosition = offsetToPosition(text, end - 1);
+  const startNode = findNodeAtPosition(root, startPosition.row, startPosition.column);
+  const endNode = findNodeAtPosition(root, endPosition.row, endPosition.column);
+  if (!startNode || !endNode) {
+    return null;
+  }
+
+  const startPath = pathToNode(root, startNode);
+  const endPath = pathToNode(root, endNode);
+  if (!startPath || !endPath) {
+    return null;
+  }
+
+  // Deepest common ancestor of both ends
+  let common = 0;
+  while (
+    common < startPath.length &&
+    common < endPath.length &&
+    startPath[common] === endPath[common]
+  ) {
+    common++;
+  }
+
+  // Both ends below the same ancestor: either they sit in different units of
+  // that ancestor (a list), or inside one unit further up the tree
+  for (let depth = common; depth >= 0; depth--) {
+    let parent = root;
+    for (let i = 0; i < depth - 1; i++) {
+      parent = parent.children[startPath[i]];
+    }
+
+    if (depth === common && common < startPath.length && common < endPath.length) {
+      // Ends diverge below `common`: select the sibling span if it's a list
+      const listNode = depth === 0 ? root : parent.children[startPath[depth - 1]];
+      if (RANGE_LIST_TYPES.has(listNode.type)) {
+        return {
+          parentPath: startPath.slice(0, depth),
+          first: startPath[depth],
+          last: endPath[depth],
+        };
+      }
+    }
+
+    if (depth > 0 && isRangeUnit(parent, startPath[depth - 1])) {
+      return {
+        parentPath: startPath.slice(0, depth - 1),
+        first: startPath[depth - 1],
+        last: startPath[depth - 1],
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Offset just past a range unit, including the `;` that terminates it.
+ * The `;` belongs to the enclosing list in the grammar, but the printer
+ * prints it as part of the unit.
+ */
+export function getRangeUnitEnd(text: string, node: ASTNode): number {
+  let i = node.endIndex;
+  while (i < text.length && /\s/.test(text[i])) i++;
+  return text[i] === ";" ? i + 1 : node.endIndex;
+}
@@ -0,0 +1,73 @@
+/**
+ * Version reporting
+ * Identifies the formatter, tree-sitter runtime and grammar that produced an
+ * output, since a change in any of them can change the formatting
+ */
+
+import * as fs from "fs";
+import { getBackend } from "./parser.js";
+import type { ParserBackend } from "./parser.js";
+
+/**
+ * Versions of the formatter and the parser it runs on
+ */
+export interface VersionInfo {
+  /** Version of prettier-plugin-modelica */
+  formatter: string;
+  /** Backend the runtime and grammar are reported for (null if none could be loaded) */
+  backend: ParserBackend | null;
+  /** Tree-sitter runtime package and version, e.g. `tree-sitter 0.25.0` */
+  runtime: string | null;
+  /**
+   * Grammar version: the package version of the native grammar, or the
+   * revision pinned in extension.toml for `grammars/modelica.wasm`
+   */
+  grammar: string | null;
+}
+
+/**
+ * Version of this package, from its package.json
+ */
+function readFormatterVersion(): string {
+  try {
+    const manifestPath = new URL("../package.json", import.meta.url);
+    return JSON.parse(fs.readFileSync(manifestPath, "utf8")).version ?? "unknown";
+  } catch {
+    return "unknown";
+  }
+}
+
+/**
+ * Get the versions of the formatter, of the current parser backend (the
+ * native one is loaded if none is selected) and of its grammar
+ */
+export function getVersionInfo(): VersionInfo {
+  let backend;
+  try {
+    backend = getBackend();
+  } catch {
+    backend = undefined;
+  }
+  return {
+    formatter: readFormatterVersion(),
+    backend: backend?.name ?? null,
+    runtime: backend?.runtimeVersion ?? null,
+    grammar: backend?.grammarVersion ?? null,
+  };
+}
+
+/**
+ * One-line summary of the versions, e.g.
+ * `prettier-plugin-modelica 0.1.0, web-tree-sitter 0.25.10 (wasm), grammar modelica.wasm rev 8237928...`
+ * (revisions are printed in full)
+ */
+export function formatVersionInfo(info: VersionInfo): string {
+  const parts = [`prettier-plugin-modelica ${info.formatter}`];
+  if (info.runtime) {
+    parts.push(`${info.runtime} (${info.backend})`);
+  }
+  if (info.grammar) {
+    parts.push(`grammar ${info.grammar}`);
+  }
+  return parts.join(", ");
+}
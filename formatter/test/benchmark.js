@@ -0,0 +1,146 @@
+#!/usr/bin/env node
+
+/**
+ * Parse and format benchmark
+ *
+ * Measures, for each Modelica file, the time to parse it and the time to
+ * parse and format it, plus the peak memory (resident set size) of a process
+ * that only handles that file.
+ *
+ * Usage: node test/benchmark.js [--iterations N] [--json] [files...]
+ * Without files, the fixtures in this directory are measured. The parser
+ * backend is chosen like in the formatter (MODELICA_PARSER_BACKEND).
+ */
+
+import { readFileSync, readdirSync } from 'fs';
+import { join, basename, relative } from 'path';
+import { fileURLToPath } from 'url';
+import { dirname } from 'path';
+import { spawnSync } from 'child_process';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+function parseArgs(argv) {
+  const args = { iterations: 10, json: false, measure: null, files: [] };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--iterations') {
+      args.iterations = Number.parseInt(argv[++i], 10);
+    } else if (arg === '--json') {
+      args.json = true;
+    } else if (arg === '--measure') {
+      args.measure = argv[++i];
+    } else {
+      args.files.push(arg);
+    }
+  }
+  if (!Number.isInteger(args.iterations) || args.iterations < 1) {
+    console.error('--iterations must be a positive integer');
+    process.exit(2);
+  }
+  return args;
+}
+
+function mean(values) {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/**
+ * Measure one file in this process and print the result as JSON
+ */
+async function measure(file, iterations) {
+  const prettier = await import('prettier');
+  const plugin = await import('../dist/index.js');
+  const source = readFileSync(file, 'utf8');
+  const formatOptions = { parser: 'modelica', plugins: [plugin.default] };
+  const backend = await plugin.initParser();
+
+  // Warm up, so that module loading and JIT compilation are not measured
+  plugin.parse(source);
+  await prettier.format(source, formatOptions);
+
+  const parseTimes = [];
+  const formatTimes = [];
+  for (let i = 0; i < iterations; i++) {
+    let start = performance.now();
+    plugin.parse(source);
+    parseTimes.push(performance.now() - start);
+
+    start = performance.now();
+    await prettier.format(source, formatOptions);
+    formatTimes.push(performance.now() - start);
+  }
+
+  process.stdout.write(JSON.stringify({
+    backend,
+    lines: source.split('\n').length,
+    parseMs: mean(parseTimes),
+    formatMs: mean(formatTimes),
+    // maxRSS is reported in kilobytes
+    peakRssMb: process.resourceUsage().maxRSS / 1024,
+  }));
+}
+
+/**
+ * Measure each file in its own process, so that peak memory is per file
+ */
+function run(files, iterations) {
+  const results = [];
+  for (const file of files) {
+    const child = spawnSync(
+      process.execPath,
+      [...process.execArgv, __filename, '--measure', file, '--iterations', String(iterations)],
+      { encoding: 'utf8', timeout: 10 * 60 * 1000 },
+    );
+    if (child.status !== 0) {
+      console.error(`✗ ${file}: ${child.stderr || child.error?.message || 'benchmark failed'}`);
+      process.exit(1);
+    }
+    results.push({ file: relative(process.cwd(), file), ...JSON.parse(child.stdout) });
+  }
+  return results;
+}
+
+function printTable(results, iterations) {
+  const rows = results.map((r) => [
+    basename(r.file),
+    String(r.lines),
+    r.parseMs.toFixed(2),
+    r.formatMs.toFixed(2),
+    r.peakRssMb.toFixed(1),
+  ]);
+  const header = ['File', 'Lines', 'Parse (ms)', 'Parse + format (ms)', 'Peak RSS (MB)'];
+  const widths = header.map((title, column) =>
+    Math.max(title.length, ...rows.map((row) => row[column].length)),
+  );
+  const line = (cells) =>
+    `| ${cells.map((cell, column) => column === 0 ? cell.padEnd(widths[column]) : cell.padStart(widths[column])).join(' | ')} |`;
+
+  console.log(
+    `Node ${process.version}, ${process.platform}-${process.arch}, ` +
+    `${results[0]?.backend} backend, mean of ${iterations} runs\n`,
+  );
+  console.log(line(header));
+  console.log(`|${widths.map((width, column) => column === 0 ? '-'.repeat(width + 2) : `${'-'.repeat(width + 1)}:`).join('|')}|`);
+  rows.forEach((row) => console.log(line(row)));
+}
+
+const args = parseArgs(process.argv.slice(2));
+
+if (args.measure) {
+  await measure(args.measure, args.iterations);
+} else {
+  const files = args.files.length > 0
+    ? args.files
+    : readdirSync(__dirname)
+      .filter((f) => f.endsWith('.mo') && !f.includes('_formatted'))
+      .sort()
+      .map((f) => join(__dirname, f));
+  const results = run(files, args.iterations);
+  if (args.json) {
+    console.log(JSON.stringify(results, null, 2));
+  } else {
+    printTable(results, args.iterations);
+  }
+}
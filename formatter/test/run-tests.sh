@@ -29,7 +29,7 @@ for file in "$TEST_DIR"/*.mo; do
     echo "Formatting: $filename"
     
     # Run prettier and output to _formatted.mo
-    npx prettier --plugin ./dist/index.js "test/$filename" > "test/${base}_formatted.mo"
+    npx prettier --plugin ./dist/index.js --modelica-strict "test/$filename" > "test/${base}_formatted.mo"
 done
 
 echo ""
@@ -47,4 +47,27 @@ fi
 
 echo ""
 echo "Running idempotence test..."
-node "$TEST_DIR/verify-idempotence.js"
\ No newline at end of file
+node "$TEST_DIR/verify-idempotence.js"
+
+echo ""
+echo "Running syntax tree check test..."
+node "$TEST_DIR/verify-equivalence.js"
+
+echo ""
+echo "Running WebAssembly grammar test..."
+node "$TEST_DIR/verify-wasm.js"
+echo ""
+echo "Running description string wrapping test..."
+node "$TEST_DIR/verify-description-strings.js"
+
+echo ""
+echo "Running input file expansion test..."
+node "$TEST_DIR/verify-files.js"
+
+echo ""
+echo "Running range formatting test..."
+node "$TEST_DIR/verify-range.js"
+
+echo ""
+echo "Running incremental parsing test..."
+node "$TEST_DIR/verify-document.js"
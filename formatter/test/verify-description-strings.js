@@ -0,0 +1,68 @@
+#!/usr/bin/env node
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+import { dirname } from 'path';
+import { format } from 'prettier';
+import plugin, { initParser } from '../dist/index.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+// Fixtures with long description strings, some of them already split
+const FILES = ['DescriptionStrings.mo', 'Types.mo', 'Annotations.mo'];
+const MODES = ['wrap', 'join'];
+const PRINT_WIDTH = 80;
+
+function formatWith(source, mode) {
+  return format(source, {
+    parser: 'modelica',
+    plugins: [plugin],
+    printWidth: PRINT_WIDTH,
+    modelicaDescriptionStrings: mode,
+  });
+}
+
+async function runTests() {
+  // Same backend as the formatter (MODELICA_PARSER_BACKEND, else native, else wasm)
+  await initParser();
+
+  console.log('Verifying description string wrapping...\n');
+
+  let passed = 0;
+  let failed = 0;
+  for (const file of FILES) {
+    const source = readFileSync(join(__dirname, file), 'utf-8');
+    for (const mode of MODES) {
+      const formatted = await formatWith(source, mode);
+      const reformatted = await formatWith(formatted, mode);
+
+      // Lines ending in a split literal are the ones the wrapping chose
+      const overlong = formatted
+        .split('\n')
+        .filter((text) => text.endsWith('" +') && text.length > PRINT_WIDTH);
+      const problems = [];
+      if (overlong.length > 0) {
+        problems.push(`${overlong.length} split lines longer than ${PRINT_WIDTH} columns`);
+      }
+      if (reformatted !== formatted) {
+        problems.push('formatting the output again changes it');
+      }
+
+      if (problems.length === 0) {
+        console.log(`✓ ${file} (${mode})`);
+        passed++;
+      } else {
+        console.log(`✗ ${file} (${mode}): ${problems.join(', ')}`);
+        failed++;
+      }
+    }
+  }
+
+  console.log(`\n${'='.repeat(50)}`);
+  console.log(`Results: ${passed} passed, ${failed} failed`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+await runTests();
@@ -0,0 +1,193 @@
+#!/usr/bin/env node
+
+import { initParser, ModelicaDocument, parse } from '../dist/index.js';
+
+const source = `model A "Model"
+  Real x = 1;
+  Real y(start = 0);
+equation
+  der(y) = -x * y;
+end A;
+`;
+
+// Edits applied to `source` and the text they must produce. Each step is one
+// call of `edit()` (a single edit or a batch) or `setText()`; the tree after
+// every step must match a fresh parse of the same text.
+const cases = [
+  {
+    name: 'insert an element',
+    steps: [{ edits: { start: { row: 2, column: 20 }, end: { row: 2, column: 20 }, text: '\n  Real z;' } }],
+    text: source.replace('(start = 0);', '(start = 0);\n  Real z;'),
+  },
+  {
+    name: 'delete across lines',
+    steps: [{ edits: { start: { row: 1, column: 13 }, end: { row: 2, column: 20 }, text: '' } }],
+    text: source.replace('\n  Real y(start = 0);', ''),
+  },
+  {
+    name: 'break the syntax, then repair it',
+    steps: [
+      { edits: { start: { row: 1, column: 12 }, end: { row: 1, column: 13 }, text: '' } },
+      { edits: { start: { row: 1, column: 12 }, end: { row: 1, column: 12 }, text: ';' } },
+    ],
+    text: source,
+  },
+  {
+    name: 'batch of edits, each on the text of the previous one',
+    steps: [{
+      edits: [
+        { start: { row: 0, column: 6 }, end: { row: 0, column: 7 }, text: 'Model' },
+        { start: { row: 5, column: 4 }, end: { row: 5, column: 5 }, text: 'Model' },
+        { start: { row: 1, column: 7 }, end: { row: 1, column: 8 }, text: 'x1' },
+        { start: { row: 4, column: 12 }, end: { row: 4, column: 13 }, text: 'x1' },
+      ],
+    }],
+    text: source.replace('model A', 'model Model').replace('end A', 'end Model').replace(/\bx\b/g, 'x1'),
+  },
+  {
+    name: 'batch of edits inside the text of an earlier one',
+    steps: [{
+      edits: [
+        { start: { row: 3, column: 0 }, end: { row: 3, column: 0 }, text: '  Real w;\n' },
+        { start: { row: 3, column: 7 }, end: { row: 3, column: 8 }, text: 'v = 2' },
+      ],
+    }],
+    text: source.replace('equation', '  Real v = 2;\nequation'),
+  },
+  {
+    name: 'positions past the end of a line or of the text',
+    steps: [
+      { edits: { start: { row: 0, column: 99 }, end: { row: 0, column: 99 }, text: ' "More"' } },
+      { edits: { start: { row: 99, column: 0 }, end: { row: 99, column: 0 }, text: 'model B\nend B;\n' } },
+    ],
+    text: source.replace('"Model"', '"Model" "More"') + 'model B\nend B;\n',
+  },
+  {
+    name: 'text with characters outside the BMP',
+    steps: [
+      { edits: { start: { row: 0, column: 9 }, end: { row: 0, column: 14 }, text: 'Temperature in °C 🌡' } },
+      { edits: { start: { row: 1, column: 12 }, end: { row: 1, column: 12 }, text: ' "x 🌡"' } },
+    ],
+    text: source.replace('"Model"', '"Temperature in °C 🌡"').replace('x = 1;', 'x = 1 "x 🌡";'),
+  },
+  {
+    name: 'replace the whole text',
+    steps: [{ setText: source.replace('-x * y', '-2 * x * y') }],
+    text: source.replace('-x * y', '-2 * x * y'),
+  },
+  {
+    name: 'replace the whole text with itself',
+    steps: [{ setText: source, unchanged: true }],
+    text: source,
+  },
+];
+
+/**
+ * Everything the formatter reads from a node, children included
+ */
+function serialize(node) {
+  return {
+    type: node.type,
+    text: node.children.length === 0 ? node.text : undefined,
+    range: node.range,
+    startIndex: node.startIndex,
+    endIndex: node.endIndex,
+    isError: node.isError,
+    isMissing: node.isMissing,
+    fieldName: node.fieldName,
+    tokens: node.tokens?.map(({ type, text, startIndex, endIndex }) => ({ type, text, startIndex, endIndex })),
+    children: node.children.map(serialize),
+  };
+}
+
+/**
+ * First path at which two serialized trees differ, or null
+ */
+function findDifference(actual, expected, path = 'rootNode') {
+  for (const key of Object.keys(expected)) {
+    if (key === 'children') {
+      continue;
+    }
+    if (JSON.stringify(actual[key]) !== JSON.stringify(expected[key])) {
+      return `${path}.${key}: ${JSON.stringify(actual[key])} instead of ${JSON.stringify(expected[key])}`;
+    }
+  }
+  if (actual.children.length !== expected.children.length) {
+    return `${path} (${expected.type}): ${actual.children.length} children instead of ${expected.children.length}`;
+  }
+  for (let i = 0; i < expected.children.length; i++) {
+    const difference = findDifference(actual.children[i], expected.children[i], `${path}.children[${i}]`);
+    if (difference) {
+      return difference;
+    }
+  }
+  return null;
+}
+
+/**
+ * Problem with one step of a case, or null
+ */
+function checkStep(document, step, changes, oldText) {
+  const expected = parse(document.text, { includeTokens: true });
+  const difference = findDifference(serialize(document.rootNode), serialize(expected.rootNode));
+  if (difference) {
+    return `tree differs from a fresh parse at ${difference}`;
+  }
+  if (document.parseResult.errorCount !== expected.errorCount) {
+    return `${document.parseResult.errorCount} syntax errors instead of ${expected.errorCount}`;
+  }
+  if (step.unchanged ? changes.length > 0 : changes.length === 0) {
+    return `${changes.length} changed ranges reported`;
+  }
+  // The text before the first and after the last reported range is unchanged
+  const newText = document.text;
+  const start = changes.length > 0 ? changes[0].startIndex : newText.length;
+  const end = changes.length > 0 ? changes[changes.length - 1].endIndex : newText.length;
+  const after = newText.length - end;
+  if (
+    after > oldText.length ||
+    newText.slice(0, start) !== oldText.slice(0, start) ||
+    newText.slice(end) !== oldText.slice(oldText.length - after)
+  ) {
+    return 'text changed outside the reported ranges';
+  }
+  return null;
+}
+
+async function runTests() {
+  // Same backend as the formatter (MODELICA_PARSER_BACKEND, else native, else wasm)
+  await initParser();
+
+  console.log('Verifying incremental parsing...\n');
+
+  let failed = 0;
+  for (const { name, steps, text } of cases) {
+    const document = new ModelicaDocument(source, { includeTokens: true });
+    let problem = null;
+    for (const [i, step] of steps.entries()) {
+      const oldText = document.text;
+      const changes = step.setText !== undefined ? document.setText(step.setText) : document.edit(step.edits);
+      problem = checkStep(document, step, changes, oldText);
+      if (problem) {
+        problem = `step ${i + 1}: ${problem}`;
+        break;
+      }
+    }
+    if (!problem && document.text !== text) {
+      problem = `text is ${JSON.stringify(document.text)}`;
+    }
+
+    if (problem) {
+      console.log(`✗ ${name}: ${problem}`);
+      failed++;
+    } else {
+      console.log(`✓ ${name}`);
+    }
+  }
+
+  console.log(`\n${'='.repeat(50)}`);
+  console.log(`Results: ${cases.length - failed} passed, ${failed} failed`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+await runTests();
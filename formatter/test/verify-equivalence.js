@@ -0,0 +1,88 @@
+#!/usr/bin/env node
+
+import { checkAstEquivalence, initParser } from '../dist/index.js';
+
+// Pairs of original and formatted code, and whether the syntax tree check
+// must accept them as the same model
+const cases = [
+  {
+    name: 'layout changes',
+    original: 'model A\n  Real x=1;\nend A;\n',
+    formatted: 'model A\n  Real x = 1;\nend A;\n',
+    equivalent: true,
+  },
+  {
+    name: 'whitespace removed from a string literal',
+    original: 'model A\n  String s = "a  b";\nend A;\n',
+    formatted: 'model A\n  String s = "ab";\nend A;\n',
+    equivalent: false,
+  },
+  {
+    name: 'whitespace added to a string literal',
+    original: 'model A\n  String s = "a b";\nend A;\n',
+    formatted: 'model A\n  String s = "a\n    b";\nend A;\n',
+    equivalent: false,
+  },
+  {
+    name: 'description string split at a word boundary',
+    original: 'model A\n  Real x "Gain of the controller";\nend A;\n',
+    formatted: 'model A\n  Real x "Gain of the " +\n    "controller";\nend A;\n',
+    equivalent: true,
+  },
+  {
+    name: 'description string split without its space',
+    original: 'model A\n  Real x "Gain of the controller";\nend A;\n',
+    formatted: 'model A\n  Real x "Gain of the" +\n    "controller";\nend A;\n',
+    equivalent: false,
+  },
+  {
+    name: 'annotation HTML reflowed',
+    original: 'model A\nannotation(Documentation(info="<html><p>Text<br>more</p></html>"));\nend A;\n',
+    formatted: 'model A\nannotation(Documentation(info="<html>\n  <p>Text<br />more</p>\n</html>"));\nend A;\n',
+    equivalent: true,
+  },
+  {
+    name: 'HTML outside of annotations reflowed',
+    original: 'model A\n  String s = "<html><p>Text</p></html>";\nend A;\n',
+    formatted: 'model A\n  String s = "<html>\n  <p>Text</p>\n</html>";\nend A;\n',
+    equivalent: false,
+  },
+  {
+    name: 'line comment wrapped',
+    original: 'model A\n  // A long comment\n  Real x;\nend A;\n',
+    formatted: 'model A\n  // A long\n  // comment\n  Real x;\nend A;\n',
+    equivalent: true,
+  },
+  {
+    name: 'comment marker dropped',
+    original: 'model A\n  /* A comment */\n  Real x;\nend A;\n',
+    formatted: 'model A\n  /* A comment\n  Real x; */\nend A;\n',
+    equivalent: false,
+  },
+];
+
+async function runTests() {
+  await initParser();
+
+  console.log('Verifying the syntax tree check...\n');
+
+  let failed = 0;
+  for (const { name, original, formatted, equivalent } of cases) {
+    const result = checkAstEquivalence(original, formatted);
+    if (result.equivalent === equivalent) {
+      console.log(`✓ ${name}`);
+    } else {
+      console.log(`✗ ${name}: expected ${equivalent ? 'equivalent' : 'a difference'}`);
+      if (result.message) {
+        console.log(`    ${result.message}`);
+      }
+      failed++;
+    }
+  }
+
+  console.log(`\n${'='.repeat(50)}`);
+  console.log(`Results: ${cases.length - failed} passed, ${failed} failed`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+await runTests();
@@ -0,0 +1,144 @@
+#!/usr/bin/env node
+
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join, relative } from 'path';
+import { expandInputs, globToRegExp, parseIgnoreFile } from '../dist/files.js';
+
+// Glob patterns, and the paths each must and must not match
+const globCases = [
+  { pattern: '*.mo', matches: ['a.mo'], rejects: ['A/a.mo', 'a.mos'] },
+  { pattern: '**/*.mo', matches: ['a.mo', 'A/a.mo', 'A/B/a.mo'], rejects: ['a.txt'] },
+  { pattern: 'A/**', matches: ['A/a.mo', 'A/B/a.mo'], rejects: ['B/a.mo'] },
+  { pattern: 'A/**/package.mo', matches: ['A/package.mo', 'A/B/C/package.mo'], rejects: ['A/B/a.mo'] },
+  { pattern: '{Fluid,Media}/*.mo', matches: ['Fluid/a.mo', 'Media/a.mo'], rejects: ['Thermal/a.mo'] },
+  { pattern: 'a?.mo', matches: ['ab.mo'], rejects: ['a.mo', 'a/.mo'] },
+  { pattern: '[abc].mo', matches: ['b.mo'], rejects: ['d.mo'] },
+  { pattern: '[!abc].mo', matches: ['d.mo'], rejects: ['b.mo'] },
+  { pattern: 'a.b(c).mo', matches: ['a.b(c).mo'], rejects: ['aXb(c).mo'] },
+];
+
+// Ignore files, and the rules they must parse into
+const ignoreCases = [
+  {
+    name: 'comments and blank lines',
+    content: '# Generated\n\n*.mo\n',
+    rules: [{ negated: false, directoryOnly: false, matches: ['a.mo', 'A/a.mo'] }],
+  },
+  {
+    name: 'negation',
+    content: '!package.mo\n',
+    rules: [{ negated: true, directoryOnly: false, matches: ['package.mo', 'A/package.mo'] }],
+  },
+  {
+    name: 'directory-only pattern',
+    content: 'Resources/\n',
+    rules: [{ negated: false, directoryOnly: true, matches: ['Resources', 'A/Resources'] }],
+  },
+  {
+    name: 'anchored pattern',
+    content: '/Obsolete/*\n',
+    rules: [{ negated: false, directoryOnly: false, matches: ['Obsolete/a.mo'], rejects: ['A/Obsolete/a.mo'] }],
+  },
+  {
+    name: 'escaped # and !',
+    content: '\\#a.mo\n\\!b.mo\n',
+    rules: [
+      { negated: false, directoryOnly: false, matches: ['#a.mo'] },
+      { negated: false, directoryOnly: false, matches: ['!b.mo'] },
+    ],
+  },
+];
+
+// Trees with ignore files, and the files expanding each input must find
+const tree = {
+  '.modelicaformatignore': 'Gen/\nResources/\n/Obsolete/*\n!/Obsolete/package.mo\n',
+  'a.mo': '',
+  'Gen/b.mo': '',
+  'Gen/Sub/c.mo': '',
+  'Lib/Resources/d.mo': '',
+  'Lib/Resources.mo': '',
+  'Lib/.modelicaformatignore': 'e.mo\n',
+  'Lib/e.mo': '',
+  'Lib/Sub/e.mo': '',
+  'Obsolete/f.mo': '',
+  'Obsolete/package.mo': '',
+};
+const expandCases = [
+  { inputs: ['.'], files: ['Lib/Resources.mo', 'Obsolete/package.mo', 'a.mo'] },
+  { inputs: ['Lib'], files: ['Lib/Resources.mo'] },
+  { inputs: ['**/*.mo'], files: ['Lib/Resources.mo', 'Obsolete/package.mo', 'a.mo'] },
+  { inputs: ['Gen/Sub'], files: [] },
+  { inputs: ['Gen/Sub/*.mo'], files: [] },
+  { inputs: ['Lib/Resources'], files: [] },
+  { inputs: ['Gen/b.mo', 'Lib/e.mo'], files: ['Gen/b.mo', 'Lib/e.mo'] },
+];
+
+function checkGlobs(check) {
+  for (const { pattern, matches, rejects } of globCases) {
+    const regex = globToRegExp(pattern);
+    const wrong = [
+      ...matches.filter((path) => !regex.test(path)),
+      ...rejects.filter((path) => regex.test(path)),
+    ];
+    check(`glob ${pattern}`, wrong.length === 0, `wrong result for ${wrong.join(', ')}`);
+  }
+}
+
+function checkIgnoreFiles(check) {
+  for (const { name, content, rules: expected } of ignoreCases) {
+    const rules = parseIgnoreFile(content, '/base');
+    const ok = rules.length === expected.length && expected.every((rule, i) =>
+      rules[i].base === '/base' &&
+      rules[i].negated === rule.negated &&
+      rules[i].directoryOnly === rule.directoryOnly &&
+      rule.matches.every((path) => rules[i].regex.test(path)) &&
+      (rule.rejects ?? []).every((path) => !rules[i].regex.test(path)));
+    check(`ignore file: ${name}`, ok, `parsed as ${JSON.stringify(rules)}`);
+  }
+}
+
+function checkExpansion(check) {
+  const root = mkdtempSync(join(tmpdir(), 'modelica-files-'));
+  try {
+    for (const [path, content] of Object.entries(tree)) {
+      mkdirSync(join(root, path, '..'), { recursive: true });
+      writeFileSync(join(root, path), content);
+    }
+    for (const { inputs, files } of expandCases) {
+      const found = expandInputs(inputs, root).files
+        .map((file) => relative(root, file).split('\\').join('/'))
+        .sort();
+      const ok = JSON.stringify(found) === JSON.stringify(files);
+      check(`expand ${inputs.join(' ')}`, ok, `found ${found.join(', ') || 'nothing'}`);
+    }
+  } finally {
+    rmSync(root, { recursive: true, force: true });
+  }
+}
+
+function runTests() {
+  console.log('Verifying input file expansion...\n');
+
+  let passed = 0;
+  let failed = 0;
+  const check = (name, ok, detail) => {
+    if (ok) {
+      console.log(`✓ ${name}`);
+      passed++;
+    } else {
+      console.log(`✗ ${name}: ${detail}`);
+      failed++;
+    }
+  };
+
+  checkGlobs(check);
+  checkIgnoreFiles(check);
+  checkExpansion(check);
+
+  console.log(`\n${'='.repeat(50)}`);
+  console.log(`Results: ${passed} passed, ${failed} failed`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+runTests();
@@ -0,0 +1,97 @@
+#!/usr/bin/env node
+
+import { format } from 'prettier';
+import plugin, { initParser } from '../dist/index.js';
+
+const source = `model A
+  Real   x=1;
+  Real   y=2 "Gain";
+  Real   z=3;
+equation
+  x=y+z;
+  y=  2*z;
+
+
+  z=1;
+end A;
+`;
+
+// Ranges, given as the text they start and end with, the source of the units
+// they snap to, and how those units are printed. Everything else must stay
+// byte-identical (no units: the whole file).
+const cases = [
+  {
+    name: 'one element',
+    range: ['y=2', 'y=2'],
+    units: 'Real   y=2 "Gain";',
+    formatted: 'Real y = 2 "Gain";',
+  },
+  {
+    name: 'several equations',
+    range: ['x=y', 'y=  2'],
+    units: 'x=y+z;\n  y=  2*z;',
+    formatted: 'x = y + z;\n  y = 2 * z;',
+  },
+  {
+    name: 'several elements',
+    range: ['x=1', 'z=3'],
+    units: 'Real   x=1;\n  Real   y=2 "Gain";\n  Real   z=3;',
+    formatted: 'Real x = 1;\n  Real y = 2 "Gain";\n  Real z = 3;',
+  },
+  {
+    name: 'equations with blank lines between them',
+    range: ['y=  2', 'z=1'],
+    units: 'y=  2*z;\n\n\n  z=1;',
+    formatted: 'y = 2 * z;\n\n  z = 1;',
+  },
+  {
+    name: 'range inside an expression',
+    range: ['2*z', '2*z'],
+    units: 'y=  2*z;',
+    formatted: 'y = 2 * z;',
+  },
+  {
+    name: 'whitespace-only range',
+    range: ['\n\n\n', '\n\n\n'],
+    units: null,
+  },
+];
+
+async function runTests() {
+  // Same backend as the formatter (MODELICA_PARSER_BACKEND, else native, else wasm)
+  await initParser();
+
+  console.log('Verifying range formatting...\n');
+
+  let failed = 0;
+  for (const { name, range, units, formatted } of cases) {
+    const rangeStart = source.indexOf(range[0]);
+    const rangeEnd = source.indexOf(range[1], rangeStart) + range[1].length;
+    const output = await format(source, {
+      parser: 'modelica',
+      plugins: [plugin],
+      modelicaRangeStart: rangeStart,
+      modelicaRangeEnd: rangeEnd,
+    });
+
+    let expected = source;
+    if (units !== null) {
+      const start = source.indexOf(units);
+      expected = source.slice(0, start) + formatted + source.slice(start + units.length);
+    }
+    if (output === expected) {
+      console.log(`✓ ${name}`);
+    } else {
+      console.log(`✗ ${name}`);
+      console.log(`    expected: ${JSON.stringify(expected)}`);
+      console.log(`    got:      ${JSON.stringify(output)}`);
+      failed++;
+    }
+  }
+
+  console.log(`\n${'='.repeat(50)}`);
+  console.log(`Results: ${cases.length - failed} passed, ${failed} failed`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+await runTests();
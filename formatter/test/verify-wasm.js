@@ -0,0 +1,58 @@
+#!/usr/bin/env node
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+import { dirname } from 'path';
+import { loadWasmBackend, stripNeededLibraries } from '../dist/backend.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+// The grammar shipped for Zed, as committed in the repository
+const wasmPath = join(__dirname, '..', '..', 'grammars', 'modelica.wasm');
+
+function dylinkSection(bytes) {
+  // First section after the 8-byte header: id 0, size, then the name
+  const text = new TextDecoder('latin1').decode(bytes.subarray(8, 8 + 256));
+  return text.includes('dylink.0') ? text : '';
+}
+
+async function runTests() {
+  console.log('Verifying the WebAssembly grammar...\n');
+
+  const bytes = new Uint8Array(readFileSync(wasmPath));
+  const stripped = stripNeededLibraries(bytes);
+  const checks = [
+    ['grammar declares libc.so as needed library', dylinkSection(bytes).includes('libc.so')],
+    ['needed libraries removed', !dylinkSection(stripped).includes('libc.so')],
+    ['dylink.0 section kept', dylinkSection(stripped) !== ''],
+    ['stripped module is valid WebAssembly', WebAssembly.validate(stripped)],
+    ['module without needed libraries is unchanged', stripNeededLibraries(stripped) === stripped],
+  ];
+
+  // The stripped grammar loads in web-tree-sitter and parses
+  try {
+    const backend = await loadWasmBackend(wasmPath);
+    const tree = backend.parse('model A\n  Real x = 1;\nend A;\n');
+    checks.push(['grammar loads and parses', !tree.rootNode.hasError]);
+    tree.delete?.();
+  } catch (error) {
+    console.log(`  ${error instanceof Error ? error.message : String(error)}`);
+    checks.push(['grammar loads and parses', false]);
+  }
+
+  let failed = 0;
+  for (const [name, ok] of checks) {
+    console.log(`${ok ? '✓' : '✗'} ${name}`);
+    if (!ok) {
+      failed++;
+    }
+  }
+
+  console.log(`\n${'='.repeat(50)}`);
+  console.log(`Results: ${checks.length - failed} passed, ${failed} failed`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+await runTests();